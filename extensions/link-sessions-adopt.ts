@@ -0,0 +1,139 @@
+import { randomUUID } from "node:crypto";
+import { constants, copyFileSync, readFileSync, renameSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { basename, join, resolve } from "node:path";
+import {
+	type LinkTransaction,
+	isDirectoryLike,
+	listSessionFileNames,
+	makeUniqueMergePath,
+	readSessionHeader,
+} from "./link-sessions-core.ts";
+
+export type AdoptMode = "copy" | "move" | "symlink";
+
+export const ADOPT_MODES: readonly AdoptMode[] = ["copy", "move", "symlink"];
+
+export interface AdoptOptions {
+	/** Give copies a fresh session id so the original and the copy can both grow. Only for "copy". */
+	newIds?: boolean;
+}
+
+export interface AdoptedSession {
+	source: string;
+	destination: string;
+	/** Session id of the adopted file, which differs from the source's with `newIds`. */
+	id: string;
+}
+
+export interface AdoptTransaction extends LinkTransaction {
+	adopted: AdoptedSession[];
+}
+
+function listSessionIds(dirPath: string): Set<string> {
+	const ids = new Set<string>();
+	for (const name of listSessionFileNames(dirPath)) {
+		const id = readSessionHeader(join(dirPath, name))?.id;
+		if (id) ids.add(id);
+	}
+	return ids;
+}
+
+/** Writes a copy of `source` whose header carries a new id and points back at the source, like a fork. */
+export function copyWithNewId(source: string, targetDir: string): AdoptedSession {
+	const text = readFileSync(source, "utf8");
+	const newline = text.indexOf("\n");
+	const header = JSON.parse(newline === -1 ? text : text.slice(0, newline));
+
+	const id = randomUUID();
+	const timestamp = new Date().toISOString();
+	const destination = join(targetDir, `${timestamp.replace(/[:.]/g, "-")}_${id}.jsonl`);
+	const rest = newline === -1 ? "" : text.slice(newline + 1);
+	writeFileSync(destination, `${JSON.stringify({ ...header, id, timestamp, parentSession: source })}\n${rest}`, {
+		flag: "wx",
+	});
+	return { source, destination, id };
+}
+
+/**
+ * Brings individual session files into `targetDir` by copying, moving or symlinking them.
+ * Sessions whose id is already in the target are refused unless they get new ids.
+ */
+export function createAdoptTransaction(
+	sourcePaths: string[],
+	targetDir: string,
+	mode: AdoptMode,
+	options: AdoptOptions = {},
+): AdoptTransaction {
+	const resolvedTargetDir = resolve(targetDir);
+	if (!isDirectoryLike(resolvedTargetDir)) {
+		throw new Error(`Target is not a directory: ${resolvedTargetDir}`);
+	}
+	if (options.newIds && mode !== "copy") {
+		throw new Error("New session ids are only possible when copying sessions");
+	}
+
+	const existingIds = listSessionIds(resolvedTargetDir);
+	const adopted: AdoptedSession[] = [];
+
+	const undo = () => {
+		for (const file of adopted.reverse()) {
+			if (mode === "move") {
+				renameSync(file.destination, file.source);
+			} else {
+				rmSync(file.destination, { force: true });
+			}
+		}
+		adopted.length = 0;
+	};
+
+	try {
+		for (const sourcePath of sourcePaths) {
+			const source = resolve(sourcePath);
+			const header = readSessionHeader(source);
+			if (!header) throw new Error(`Not a session file: ${source}`);
+
+			if (options.newIds) {
+				adopted.push(copyWithNewId(source, resolvedTargetDir));
+				continue;
+			}
+
+			if (existingIds.has(header.id)) {
+				throw new Error(`Session ${header.id} is already in this folder; adopt it with new ids instead`);
+			}
+			existingIds.add(header.id);
+
+			const destination = makeUniqueMergePath(resolvedTargetDir, basename(source));
+			if (mode === "copy") {
+				copyFileSync(source, destination, constants.COPYFILE_EXCL);
+			} else if (mode === "move") {
+				renameSync(source, destination);
+			} else {
+				symlinkSync(source, destination, "file");
+			}
+			adopted.push({ source, destination, id: header.id });
+		}
+	} catch (err) {
+		try {
+			undo();
+		} catch {
+			// ignore
+		}
+		throw err;
+	}
+
+	const result = [...adopted];
+	let closed = false;
+
+	return {
+		adopted: result,
+		rollback() {
+			if (closed) return;
+			closed = true;
+
+			undo();
+		},
+		commit() {
+			closed = true;
+		},
+	};
+}
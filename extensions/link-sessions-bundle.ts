@@ -0,0 +1,303 @@
+import { createHash, randomUUID } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { basename, join, resolve } from "node:path";
+import { gunzipSync, gzipSync } from "node:zlib";
+import {
+	type LinkTransaction,
+	getPathKind,
+	isDirectoryLike,
+	listSessionFileNames,
+	makeUniqueMergePath,
+	pathExists,
+	readSessionHeader,
+	safeRemovePath,
+} from "./link-sessions-core.ts";
+
+export const BUNDLE_FORMAT = "pi-link-sessions-bundle";
+
+export const BUNDLE_VERSION = 1;
+
+export const BUNDLE_FILE_EXTENSION = ".pi-sessions";
+
+export interface BundledSession {
+	fileName: string;
+	id: string;
+	cwd: string;
+	size: number;
+	sha256: string;
+}
+
+export interface BundleManifest {
+	format: typeof BUNDLE_FORMAT;
+	version: number;
+	createdAt: string;
+	/** Encoded name of the folder the sessions were exported from. */
+	sourceFolder: string;
+	/** Cwd recorded by the newest exported session. */
+	sourceCwd: string;
+	sessions: BundledSession[];
+}
+
+export interface SessionBundle {
+	manifest: BundleManifest;
+	/** Session file contents keyed by file name. */
+	files: Map<string, string>;
+}
+
+export interface ImportPlan {
+	/** Sessions that are not in the target folder yet. */
+	added: BundledSession[];
+	/** Sessions already in the target folder, with the same or newer contents. */
+	present: BundledSession[];
+	/** Sessions whose id is in the target folder with different contents. */
+	conflicts: BundledSession[];
+}
+
+export interface ImportOptions {
+	/** Rewrite the recorded cwd of every imported session. */
+	cwd?: string;
+	/** Import conflicting sessions under a new id instead of skipping them. */
+	newIds?: boolean;
+}
+
+export interface ImportedSession {
+	fileName: string;
+	destination: string;
+	/** Session id of the imported file, which differs from the bundled one for renamed conflicts. */
+	id: string;
+}
+
+export interface ImportTransaction extends LinkTransaction {
+	imported: ImportedSession[];
+	/** Ids of sessions that were left out: already present, or conflicting without `newIds`. */
+	skipped: string[];
+}
+
+function sha256(contents: string): string {
+	return createHash("sha256").update(contents).digest("hex");
+}
+
+/** Packs session files into one gzipped bundle at `bundlePath`. Refuses to overwrite an existing file. */
+export function writeBundle(sessionPaths: string[], bundlePath: string, sourceFolder: string): BundleManifest {
+	if (sessionPaths.length === 0) throw new Error("No sessions to export");
+	const resolvedBundlePath = resolve(bundlePath);
+	if (pathExists(resolvedBundlePath)) throw new Error(`Bundle already exists: ${resolvedBundlePath}`);
+
+	const sessions: BundledSession[] = [];
+	const files: Record<string, string> = {};
+	for (const sessionPath of [...sessionPaths].sort((a, b) => basename(a).localeCompare(basename(b)))) {
+		const header = readSessionHeader(sessionPath);
+		if (!header) throw new Error(`Not a session file: ${sessionPath}`);
+		const fileName = basename(sessionPath);
+		if (files[fileName] !== undefined) throw new Error(`Two sessions share the file name ${fileName}`);
+
+		const contents = readFileSync(sessionPath, "utf8");
+		files[fileName] = contents;
+		sessions.push({ fileName, id: header.id, cwd: header.cwd, size: Buffer.byteLength(contents), sha256: sha256(contents) });
+	}
+
+	const manifest: BundleManifest = {
+		format: BUNDLE_FORMAT,
+		version: BUNDLE_VERSION,
+		createdAt: new Date().toISOString(),
+		sourceFolder,
+		// Session file names start with their creation time, so the last one with a cwd is the newest.
+		sourceCwd: [...sessions].reverse().find((session) => session.cwd)?.cwd ?? "",
+		sessions,
+	};
+
+	const tempPath = `${resolvedBundlePath}.tmp-${process.pid}`;
+	try {
+		writeFileSync(tempPath, gzipSync(JSON.stringify({ manifest, files })));
+		renameSync(tempPath, resolvedBundlePath);
+	} catch (err) {
+		rmSync(tempPath, { force: true });
+		throw err;
+	}
+	return manifest;
+}
+
+function isBundledSession(value: unknown): value is BundledSession {
+	const session = value as BundledSession | null;
+	return (
+		typeof session?.fileName === "string" &&
+		typeof session.id === "string" &&
+		typeof session.cwd === "string" &&
+		typeof session.size === "number" &&
+		typeof session.sha256 === "string"
+	);
+}
+
+/** Reads a bundle and checks every file against the manifest's checksums before anything is unpacked. */
+export function readBundle(bundlePath: string): SessionBundle {
+	let data: { manifest?: Partial<BundleManifest>; files?: Record<string, unknown> };
+	try {
+		data = JSON.parse(gunzipSync(readFileSync(bundlePath)).toString("utf8"));
+	} catch (err) {
+		const code = (err as NodeJS.ErrnoException).code;
+		if (code === "ENOENT" || code === "EISDIR" || code === "EACCES") throw err;
+		throw new Error(`Not a session bundle: ${bundlePath}`);
+	}
+
+	const manifest = data?.manifest;
+	if (manifest?.format !== BUNDLE_FORMAT || typeof data.files !== "object" || data.files === null) {
+		throw new Error(`Not a session bundle: ${bundlePath}`);
+	}
+	if (typeof manifest.version !== "number" || manifest.version > BUNDLE_VERSION) {
+		throw new Error(`${basename(bundlePath)} was written by a newer version of link-sessions`);
+	}
+	if (!Array.isArray(manifest.sessions) || !manifest.sessions.every(isBundledSession)) {
+		throw new Error(`${basename(bundlePath)} has an invalid manifest`);
+	}
+
+	const files = new Map<string, string>();
+	for (const session of manifest.sessions) {
+		// File names come from someone else's machine; never let one point outside the target folder.
+		if (basename(session.fileName) !== session.fileName || !session.fileName.endsWith(".jsonl")) {
+			throw new Error(`${basename(bundlePath)} contains an invalid file name: ${session.fileName}`);
+		}
+		const contents = data.files[session.fileName];
+		if (typeof contents !== "string") throw new Error(`${basename(bundlePath)} is missing ${session.fileName}`);
+		if (sha256(contents) !== session.sha256) throw new Error(`Checksum mismatch for ${session.fileName}`);
+
+		const newline = contents.indexOf("\n");
+		let header: { type?: unknown; id?: unknown };
+		try {
+			header = JSON.parse(newline === -1 ? contents : contents.slice(0, newline));
+		} catch {
+			header = {};
+		}
+		if (header?.type !== "session" || header.id !== session.id) {
+			throw new Error(`${session.fileName} does not hold session ${session.id}`);
+		}
+		files.set(session.fileName, contents);
+	}
+
+	return {
+		manifest: {
+			format: BUNDLE_FORMAT,
+			version: manifest.version,
+			createdAt: typeof manifest.createdAt === "string" ? manifest.createdAt : "",
+			sourceFolder: typeof manifest.sourceFolder === "string" ? manifest.sourceFolder : "",
+			sourceCwd: typeof manifest.sourceCwd === "string" ? manifest.sourceCwd : "",
+			sessions: manifest.sessions,
+		},
+		files,
+	};
+}
+
+function indexSessionPaths(dirPath: string): Map<string, string> {
+	const paths = new Map<string, string>();
+	for (const name of listSessionFileNames(dirPath)) {
+		const id = readSessionHeader(join(dirPath, name))?.id;
+		if (id && !paths.has(id)) paths.set(id, join(dirPath, name));
+	}
+	return paths;
+}
+
+/** Sorts a bundle's sessions by how they relate to the sessions already in `targetDir`. */
+export function planImport(bundle: SessionBundle, targetDir: string): ImportPlan {
+	const existing = isDirectoryLike(targetDir) ? indexSessionPaths(targetDir) : new Map<string, string>();
+	const plan: ImportPlan = { added: [], present: [], conflicts: [] };
+
+	for (const session of bundle.manifest.sessions) {
+		const existingPath = existing.get(session.id);
+		if (!existingPath) {
+			plan.added.push(session);
+			continue;
+		}
+		// Session files are append-only, so a local copy that starts with the bundled one is the same or newer.
+		const local = readFileSync(existingPath, "utf8");
+		if (local.startsWith(bundle.files.get(session.fileName)!)) {
+			plan.present.push(session);
+		} else {
+			plan.conflicts.push(session);
+		}
+	}
+	return plan;
+}
+
+function rewriteHeader(contents: string, changes: Record<string, unknown>): string {
+	const newline = contents.indexOf("\n");
+	const header = JSON.parse(newline === -1 ? contents : contents.slice(0, newline));
+	return `${JSON.stringify({ ...header, ...changes })}${newline === -1 ? "" : contents.slice(newline)}`;
+}
+
+/**
+ * Unpacks a bundle into `targetDir`, creating it when missing. Sessions already present are skipped;
+ * conflicting ones are skipped too unless `newIds` is set. File name collisions get a `-merged-N` suffix.
+ */
+export function createImportTransaction(
+	bundle: SessionBundle,
+	targetDir: string,
+	options: ImportOptions = {},
+): ImportTransaction {
+	const resolvedTargetDir = resolve(targetDir);
+	const targetKind = getPathKind(resolvedTargetDir);
+	if (targetKind !== "missing" && !isDirectoryLike(resolvedTargetDir)) {
+		throw new Error(`Target is not a directory: ${resolvedTargetDir}`);
+	}
+
+	const plan = planImport(bundle, resolvedTargetDir);
+	const skipped = [...plan.present, ...(options.newIds ? [] : plan.conflicts)].map((session) => session.id);
+	const renamed = new Set(options.newIds ? plan.conflicts : []);
+	const imported: ImportedSession[] = [];
+	let createdDir = false;
+
+	const undo = () => {
+		for (const file of imported) {
+			rmSync(file.destination, { force: true });
+		}
+		imported.length = 0;
+		if (createdDir) safeRemovePath(resolvedTargetDir);
+	};
+
+	try {
+		if (targetKind === "missing") {
+			mkdirSync(resolvedTargetDir, { recursive: true });
+			createdDir = true;
+		}
+
+		for (const session of [...plan.added, ...renamed]) {
+			let contents = bundle.files.get(session.fileName) ?? "";
+			let fileName = session.fileName;
+			let id = session.id;
+			const changes: Record<string, unknown> = options.cwd ? { cwd: options.cwd } : {};
+			if (renamed.has(session)) {
+				id = randomUUID();
+				const timestamp = new Date().toISOString();
+				fileName = `${timestamp.replace(/[:.]/g, "-")}_${id}.jsonl`;
+				Object.assign(changes, { id, timestamp });
+			}
+			if (Object.keys(changes).length > 0) contents = rewriteHeader(contents, changes);
+
+			const destination = makeUniqueMergePath(resolvedTargetDir, fileName);
+			writeFileSync(destination, contents, { flag: "wx" });
+			imported.push({ fileName, destination, id });
+		}
+	} catch (err) {
+		try {
+			undo();
+		} catch {
+			// ignore
+		}
+		throw err;
+	}
+
+	const result = [...imported];
+	let closed = false;
+
+	return {
+		imported: result,
+		skipped,
+		rollback() {
+			if (closed) return;
+			closed = true;
+
+			undo();
+		},
+		commit() {
+			closed = true;
+		},
+	};
+}
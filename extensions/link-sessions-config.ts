@@ -0,0 +1,124 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { basename, dirname } from "node:path";
+import type { PathMapping, SessionRoot } from "./link-sessions-core.ts";
+
+export const CONFIG_FILE_NAME = "link-sessions.json";
+
+export type LinkMode = "symlink" | "mirror";
+
+export type CwdRewriteMode = "ask" | "always" | "never";
+
+export interface LinkSessionsConfig {
+	pathMappings: PathMapping[];
+	/** Offer to link when a session starts in an empty folder. */
+	offerOnStart: boolean;
+	/** Folder names for which the start-up offer was dismissed with "never ask again". */
+	neverOfferFolders: string[];
+	/** Create links with targets relative to the sessions root, for sessions roots synced between machines. */
+	relativeLinks: boolean;
+	/** "mirror" copies sessions into a real directory instead of linking, for filesystems without symlinks. */
+	linkMode: LinkMode;
+	/** Whether to rewrite the recorded cwd of a resumed session that was recorded under another path. */
+	rewriteSessionCwd: CwdRewriteMode;
+	/** Further sessions directories whose folders are offered in the picker, each under its own label. */
+	extraRoots: SessionRoot[];
+	/** Days a replaced folder stays in the trash; 0 keeps it until purged by hand. */
+	trashRetentionDays: number;
+	/** Size cap of the trash in megabytes; the oldest folders are purged first. 0 means no cap. */
+	trashMaxSizeMb: number;
+	/** Days without activity after which `/link-sessions gc` offers a folder; 0 turns the check off. */
+	gcStaleDays: number;
+}
+
+export function defaultConfig(): LinkSessionsConfig {
+	return {
+		pathMappings: [],
+		offerOnStart: true,
+		neverOfferFolders: [],
+		relativeLinks: false,
+		linkMode: "symlink",
+		rewriteSessionCwd: "ask",
+		extraRoots: [],
+		trashRetentionDays: 30,
+		trashMaxSizeMb: 0,
+		gcStaleDays: 180,
+	};
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function normalizePathMappings(value: unknown): PathMapping[] {
+	if (!Array.isArray(value)) return [];
+
+	const mappings: PathMapping[] = [];
+	for (const entry of value) {
+		if (!isRecord(entry)) continue;
+		if (typeof entry.from !== "string" || typeof entry.to !== "string") continue;
+		if (entry.from === "" || entry.to === "") continue;
+		mappings.push({ from: entry.from, to: entry.to });
+	}
+	return mappings;
+}
+
+function normalizeSessionRoots(value: unknown): SessionRoot[] {
+	if (!Array.isArray(value)) return [];
+
+	const roots: SessionRoot[] = [];
+	for (const entry of value) {
+		const path = typeof entry === "string" ? entry : isRecord(entry) ? entry.path : undefined;
+		if (typeof path !== "string" || path === "") continue;
+		const label = isRecord(entry) && typeof entry.label === "string" && entry.label !== "" ? entry.label : basename(path);
+		roots.push({ label, path });
+	}
+	return roots;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+	return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function normalizeStringList(value: unknown): string[] {
+	if (!Array.isArray(value)) return [];
+	return value.filter((entry): entry is string => typeof entry === "string" && entry !== "");
+}
+
+export function normalizeConfig(raw: unknown): LinkSessionsConfig {
+	const config = defaultConfig();
+	if (!isRecord(raw)) return config;
+
+	config.pathMappings = normalizePathMappings(raw.pathMappings);
+	if (typeof raw.offerOnStart === "boolean") config.offerOnStart = raw.offerOnStart;
+	config.neverOfferFolders = normalizeStringList(raw.neverOfferFolders);
+	if (typeof raw.relativeLinks === "boolean") config.relativeLinks = raw.relativeLinks;
+	if (raw.linkMode === "symlink" || raw.linkMode === "mirror") config.linkMode = raw.linkMode;
+	if (raw.rewriteSessionCwd === "ask" || raw.rewriteSessionCwd === "always" || raw.rewriteSessionCwd === "never") {
+		config.rewriteSessionCwd = raw.rewriteSessionCwd;
+	}
+	config.extraRoots = normalizeSessionRoots(raw.extraRoots);
+	if (isNonNegativeNumber(raw.trashRetentionDays)) config.trashRetentionDays = raw.trashRetentionDays;
+	if (isNonNegativeNumber(raw.trashMaxSizeMb)) config.trashMaxSizeMb = raw.trashMaxSizeMb;
+	if (isNonNegativeNumber(raw.gcStaleDays)) config.gcStaleDays = raw.gcStaleDays;
+	return config;
+}
+
+export function loadConfig(configPath: string): LinkSessionsConfig {
+	if (!existsSync(configPath)) return defaultConfig();
+
+	let raw: unknown;
+	try {
+		raw = JSON.parse(readFileSync(configPath, "utf8"));
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		throw new Error(`Invalid config file ${configPath}: ${message}`);
+	}
+	return normalizeConfig(raw);
+}
+
+export function saveConfig(configPath: string, config: LinkSessionsConfig): void {
+	mkdirSync(dirname(configPath), { recursive: true });
+	const tempPath = `${configPath}.tmp-${process.pid}`;
+	writeFileSync(tempPath, `${JSON.stringify(config, null, "\t")}\n`);
+	renameSync(tempPath, configPath);
+}
@@ -1,21 +1,193 @@
-import { existsSync, lstatSync, mkdirSync, readdirSync, renameSync, rmSync, statSync, symlinkSync } from "node:fs";
+import {
+	closeSync,
+	constants,
+	copyFileSync,
+	existsSync,
+	lstatSync,
+	mkdirSync,
+	openSync,
+	readdirSync,
+	readFileSync,
+	readlinkSync,
+	readSync,
+	realpathSync,
+	renameSync,
+	rmSync,
+	statSync,
+	symlinkSync,
+	utimesSync,
+	writeFileSync,
+} from "node:fs";
 import * as os from "node:os";
-import { dirname, join, resolve } from "node:path";
+import { basename, dirname, isAbsolute, join, relative, resolve } from "node:path";
+import type { SessionIndex } from "./link-sessions-index.ts";
 
 export interface FolderChoice {
 	name: string;
 	path: string;
 	sessionCount: number;
 	isCurrent: boolean;
+	/** A path-mapping rule maps this folder onto the current cwd. */
+	isSuggested: boolean;
+	/** Newest session file's modification time, only set when listed with a session index. */
+	lastModified?: Date;
+	/** Cwd recorded by the newest indexed session, only set when listed with a session index. */
+	cwd?: string;
+	/** Label of the extra session root holding this folder; unset for the current sessions root. */
+	root?: string;
+}
+
+export interface PathMapping {
+	from: string;
+	to: string;
+}
+
+/** A sessions directory besides the current one, such as a team share or an old machine's backup. */
+export interface SessionRoot {
+	label: string;
+	path: string;
+}
+
+export interface RootFolderChoices {
+	/** Folders of the current sessions root first, then each reachable extra root in order. */
+	choices: FolderChoice[];
+	unreachable: SessionRoot[];
 }
 
 export type PathKind = "missing" | "symlink" | "directory" | "other";
 
+export type UnlinkMode = "empty" | "copy" | "move";
+
+export interface LinkOptions {
+	/** Copy the current folder's sessions into the target before linking instead of discarding them. */
+	merge?: boolean;
+	/** Store the link target relative to the link's parent folder, so the link survives a synced sessions root. */
+	relative?: boolean;
+	/** Keep the current folder a real directory holding copies of the target's sessions instead of linking it. */
+	mirror?: boolean;
+}
+
+export interface MergedFile {
+	source: string;
+	destination: string;
+	renamed: boolean;
+}
+
 export interface LinkTransaction {
+	merged?: MergedFile[];
+	/** Where the replaced path was moved; on commit it goes to the trash, or is removed when it holds no sessions. */
+	backupPath?: string;
+	/** Where the replaced folder ended up in the trash, set by commit. */
+	trashPath?: string;
 	rollback(): void;
 	commit(): void;
 }
 
+export type LinkOperation =
+	| { kind: "merge-file"; file: MergedFile }
+	| { kind: "rename-to-backup"; path: string; pathKind: PathKind; backupPath: string }
+	| { kind: "create-symlink"; path: string; target: string; relative: boolean }
+	| { kind: "create-directory"; path: string }
+	/** Copies keep their source's mtime, so mirror syncs can skip sessions that haven't changed. */
+	| { kind: "copy-sessions"; sourceDir: string; path: string; names: string[] }
+	| { kind: "write-mirror-marker"; path: string; target: string }
+	/** Runs on commit, once the new session is open. */
+	| { kind: "trash-backup"; backupPath: string; sessionCount: number };
+
+/** Every filesystem change a link makes, worked out before any of them happens. */
+export interface LinkPlan {
+	currentDir: string;
+	currentKind: PathKind;
+	/** End of the target's symlink chain, which the new link points at. */
+	target: string;
+	operations: LinkOperation[];
+	warnings: string[];
+	/** Session files in the current folder that are merged into the target or deleted with the backup. */
+	affectedSessions: number;
+}
+
+export interface BackupInfo {
+	name: string;
+	path: string;
+	kind: PathKind;
+	/** Folder the backup was taken from. */
+	originalName: string;
+	originalPath: string;
+	originalKind: PathKind;
+	createdAt: Date;
+	sessionCount: number;
+}
+
+export type SymlinkChainStatus = "ok" | "missing" | "dangling" | "cycle";
+
+export interface SymlinkChain {
+	/** Symlinks that were followed, starting with the path itself when it is a link. */
+	links: string[];
+	/** First path that is not a symlink; unset for cycles. */
+	final?: string;
+	status: SymlinkChainStatus;
+}
+
+export interface SessionHeaderInfo {
+	id: string;
+	cwd: string;
+	timestamp: string;
+}
+
+export type LinkCandidateReason = "path-mapping" | "git-remote" | "basename";
+
+export interface LinkCandidate {
+	folder: FolderChoice;
+	cwd?: string;
+	reason: LinkCandidateReason;
+}
+
+export interface AbsoluteLink {
+	name: string;
+	path: string;
+	/** Absolute target as stored in the link. */
+	target: string;
+	/** The same target relative to the link's parent folder. */
+	relativeTarget: string;
+}
+
+export const LINK_SUBCOMMANDS = [
+	"history",
+	"undo",
+	"recover",
+	"doctor",
+	"relativize",
+	"status",
+	"adopt",
+	"search",
+	"export",
+	"import",
+	"trash",
+	"gc",
+] as const;
+
+export type LinkSubcommand = (typeof LINK_SUBCOMMANDS)[number];
+
+export interface LinkCommandArgs {
+	subcommand?: LinkSubcommand;
+	subcommandArgs: string[];
+	folder?: string;
+	session?: string;
+	newSession: boolean;
+	yes: boolean;
+	dryRun: boolean;
+	merge: boolean;
+	replace: boolean;
+	/** `--relative` / `--absolute`; undefined uses the configured default. */
+	relative?: boolean;
+	/** `--mirror`: copy sessions instead of creating a symlink. */
+	mirror: boolean;
+	/** `--new-ids`: give adopted copies fresh session ids. */
+	newIds: boolean;
+	/** `--rewrite-cwd`: rewrite the resumed session's recorded cwd without asking. */
+	rewriteCwd: boolean;
+}
+
 export interface SessionPreviewInfo {
 	name?: string | null;
 	firstMessage?: string | null;
@@ -31,8 +203,18 @@ export function isDirectoryLike(path: string): boolean {
 	}
 }
 
+/** Like existsSync, but true for dangling symlinks too. */
+export function pathExists(path: string): boolean {
+	try {
+		lstatSync(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
 export function getPathKind(path: string): PathKind {
-	if (!existsSync(path)) return "missing";
+	if (!pathExists(path)) return "missing";
 
 	try {
 		const stats = lstatSync(path);
@@ -44,11 +226,73 @@ export function getPathKind(path: string): PathKind {
 	}
 }
 
+export function listSessionFileNames(dirPath: string): string[] {
+	try {
+		return readdirSync(dirPath).filter((name) => name.endsWith(".jsonl"));
+	} catch {
+		return [];
+	}
+}
+
 export function countSessionFiles(dirPath: string): number {
+	return listSessionFileNames(dirPath).length;
+}
+
+/** Reads only the first line of a session file, which holds the session header. */
+export function readSessionHeader(filePath: string): SessionHeaderInfo | undefined {
+	let fd: number | undefined;
+	try {
+		fd = openSync(filePath, "r");
+		const buffer = Buffer.alloc(64 * 1024);
+		const bytesRead = readSync(fd, buffer, 0, buffer.length, 0);
+		const firstLine = buffer.toString("utf8", 0, bytesRead).split("\n", 1)[0];
+		const header = JSON.parse(firstLine);
+		if (header?.type !== "session" || typeof header.id !== "string") return undefined;
+		return {
+			id: header.id,
+			cwd: typeof header.cwd === "string" ? header.cwd : "",
+			timestamp: typeof header.timestamp === "string" ? header.timestamp : "",
+		};
+	} catch {
+		return undefined;
+	} finally {
+		if (fd !== undefined) closeSync(fd);
+	}
+}
+
+/** Returns the cwd recorded by the newest session in a folder that has one. */
+export function readFolderCwd(dirPath: string): string | undefined {
+	const names = listSessionFileNames(dirPath).sort().reverse();
+	for (const name of names) {
+		const cwd = readSessionHeader(join(dirPath, name))?.cwd;
+		if (cwd) return cwd;
+	}
+	return undefined;
+}
+
+/** Returns the absolute path a symlink points at, even when that path no longer exists. */
+export function readSymlinkTarget(path: string): string | undefined {
+	try {
+		return resolve(dirname(path), readlinkSync(path));
+	} catch {
+		return undefined;
+	}
+}
+
+/** True when `path` is a symlink whose stored target is a relative path. */
+export function isRelativeLink(path: string): boolean {
 	try {
-		return readdirSync(dirPath).filter((name) => name.endsWith(".jsonl")).length;
+		return !isAbsolute(readlinkSync(path));
 	} catch {
-		return 0;
+		return false;
+	}
+}
+
+export function resolveLinkTarget(path: string): string | undefined {
+	try {
+		return realpathSync(path);
+	} catch {
+		return undefined;
 	}
 }
 
@@ -96,15 +340,238 @@ export function makeUniqueBackupPath(path: string): string {
 	const stamp = Date.now();
 	let index = 0;
 	let candidate = `${path}.bak-${stamp}`;
-	while (existsSync(candidate)) {
+	while (pathExists(candidate)) {
 		index += 1;
 		candidate = `${path}.bak-${stamp}-${index}`;
 	}
 	return candidate;
 }
 
+const MAX_SYMLINK_HOPS = 40;
+
+const BACKUP_NAME_PATTERN = /^(.+)\.bak-(\d+)(?:-\d+)?$/;
+
+export function isBackupFolderName(name: string): boolean {
+	return BACKUP_NAME_PATTERN.test(name);
+}
+
+/**
+ * Lists `.bak-*` folders left in a sessions root by link transactions that never committed or rolled back.
+ * Backups younger than `minAgeMs` may still belong to a transaction in progress and are skipped.
+ */
+export function findOrphanedBackups(sessionsRoot: string, minAgeMs = 0, now = Date.now()): BackupInfo[] {
+	let names: string[];
+	try {
+		names = readdirSync(sessionsRoot);
+	} catch {
+		return [];
+	}
+
+	const backups: BackupInfo[] = [];
+	for (const name of names) {
+		const match = BACKUP_NAME_PATTERN.exec(name);
+		if (!match) continue;
+
+		const createdAt = new Date(Number(match[2]));
+		if (now - createdAt.getTime() < minAgeMs) continue;
+
+		const path = join(sessionsRoot, name);
+		const originalPath = join(sessionsRoot, match[1]);
+		backups.push({
+			name,
+			path,
+			kind: getPathKind(path),
+			originalName: match[1],
+			originalPath,
+			originalKind: getPathKind(originalPath),
+			createdAt,
+			sessionCount: countSessionFiles(path),
+		});
+	}
+
+	return backups.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Puts an orphaned backup back in place. When the original folder is a real directory again,
+ * the backup's sessions are merged into it instead of replacing it.
+ */
+export function restoreOrphanedBackup(backup: BackupInfo): LinkTransaction {
+	if (backup.originalKind !== "directory") {
+		return createRestoreTransaction(backup.originalPath, backup.path);
+	}
+
+	if (backup.kind !== "directory") {
+		throw new Error(`${backup.originalName} is a real directory again; a linked backup cannot be merged into it`);
+	}
+
+	const merged = mergeSessionFiles(backup.path, backup.originalPath);
+	let closed = false;
+
+	return {
+		merged,
+		rollback() {
+			if (closed) return;
+			closed = true;
+
+			for (const file of merged) {
+				rmSync(file.destination, { force: true });
+			}
+		},
+		commit() {
+			if (closed) return;
+			closed = true;
+
+			// Every session was merged, so the backup holds nothing that isn't in the original folder.
+			safeRemovePath(backup.path);
+		},
+	};
+}
+
+export function makeUniqueMergePath(targetDir: string, fileName: string): string {
+	const base = fileName.endsWith(".jsonl") ? fileName.slice(0, -".jsonl".length) : fileName;
+	let index = 0;
+	let candidate = join(targetDir, fileName);
+	while (pathExists(candidate)) {
+		index += 1;
+		candidate = join(targetDir, `${base}-merged-${index}.jsonl`);
+	}
+	return candidate;
+}
+
+function filesHaveSameContents(a: string, b: string): boolean {
+	try {
+		if (statSync(a).size !== statSync(b).size) return false;
+		return readFileSync(a).equals(readFileSync(b));
+	} catch {
+		return false;
+	}
+}
+
+/** Works out where each session file of `sourceDir` would be merged into `targetDir`, without copying anything. */
+export function planSessionMerge(sourceDir: string, targetDir: string): MergedFile[] {
+	const planned: MergedFile[] = [];
+	const taken = new Set<string>();
+
+	for (const name of listSessionFileNames(sourceDir)) {
+		const source = join(sourceDir, name);
+		if (filesHaveSameContents(source, join(targetDir, name))) continue;
+
+		let destination = makeUniqueMergePath(targetDir, name);
+		for (let index = 1; taken.has(destination); index++) {
+			destination = makeUniqueMergePath(targetDir, `${name.slice(0, -".jsonl".length)}-merged-${index}.jsonl`);
+		}
+		taken.add(destination);
+		planned.push({ source, destination, renamed: destination !== join(targetDir, name) });
+	}
+
+	return planned;
+}
+
+/** Copies session files into `targetDir`, renaming name collisions and skipping files that are already there. */
+export function mergeSessionFiles(sourceDir: string, targetDir: string): MergedFile[] {
+	return copyMergedFiles(planSessionMerge(sourceDir, targetDir));
+}
+
+function copyMergedFiles(files: MergedFile[]): MergedFile[] {
+	const merged: MergedFile[] = [];
+
+	try {
+		for (const file of files) {
+			copyFileSync(file.source, file.destination, constants.COPYFILE_EXCL);
+			merged.push(file);
+		}
+	} catch (err) {
+		for (const file of merged) {
+			rmSync(file.destination, { force: true });
+		}
+		throw err;
+	}
+
+	return merged;
+}
+
+export const MIRROR_MARKER_FILE_NAME = ".link-sessions-mirror.json";
+
+export interface MirrorMarker {
+	/** Absolute path of the folder this one mirrors. */
+	target: string;
+	createdAt: string;
+}
+
+export function getMirrorMarkerPath(dirPath: string): string {
+	return join(dirPath, MIRROR_MARKER_FILE_NAME);
+}
+
+export function writeMirrorMarker(dirPath: string, marker: MirrorMarker): void {
+	const markerPath = getMirrorMarkerPath(dirPath);
+	const tempPath = `${markerPath}.tmp-${process.pid}`;
+	writeFileSync(tempPath, `${JSON.stringify(marker, null, "\t")}\n`);
+	renameSync(tempPath, markerPath);
+}
+
+export const TRASH_DIR_NAME = ".link-sessions-trash";
+
+/** Sidecar file written next to each folder in the trash. */
+export interface TrashMetadata {
+	originalPath: string;
+	trashedAt: string;
+	sessionCount: number;
+}
+
+export function getTrashDir(sessionsRoot: string): string {
+	return join(sessionsRoot, TRASH_DIR_NAME);
+}
+
+/**
+ * Moves a replaced folder into the trash of the sessions root holding `originalPath`, recording where
+ * it came from. Returns its path in the trash.
+ */
+export function moveToTrash(path: string, originalPath: string): string {
+	const resolvedOriginalPath = resolve(originalPath);
+	const trashDir = getTrashDir(dirname(resolvedOriginalPath));
+	mkdirSync(trashDir, { recursive: true });
+
+	const trashedAt = new Date();
+	const base = `${trashedAt.getTime()}-${basename(resolvedOriginalPath)}`;
+	let trashPath = join(trashDir, base);
+	for (let index = 1; pathExists(trashPath) || pathExists(`${trashPath}.json`); index++) {
+		trashPath = join(trashDir, `${base}-${index}`);
+	}
+
+	const metadata: TrashMetadata = {
+		originalPath: resolvedOriginalPath,
+		trashedAt: trashedAt.toISOString(),
+		sessionCount: countSessionFiles(path),
+	};
+	writeFileSync(`${trashPath}.json`, `${JSON.stringify(metadata)}\n`, { flag: "wx" });
+	try {
+		renameSync(path, trashPath);
+	} catch (err) {
+		rmSync(`${trashPath}.json`, { force: true });
+		throw err;
+	}
+	return trashPath;
+}
+
+/**
+ * Disposes of a committed backup: a directory holding sessions goes to the trash, anything else is
+ * removed. If the move fails the backup stays where it is, so `/link-sessions recover` still finds it.
+ */
+export function disposeBackup(backupPath: string, originalPath: string): string | undefined {
+	if (getPathKind(backupPath) !== "directory" || countSessionFiles(backupPath) === 0) {
+		safeRemovePath(backupPath);
+		return undefined;
+	}
+	try {
+		return moveToTrash(backupPath, originalPath);
+	} catch {
+		return undefined;
+	}
+}
+
 export function safeRemovePath(path: string): void {
-	if (!existsSync(path)) return;
+	if (!pathExists(path)) return;
 
 	try {
 		const stats = lstatSync(path);
@@ -118,7 +585,16 @@ export function safeRemovePath(path: string): void {
 	}
 }
 
-export function listFolderChoices(sessionsRoot: string, currentFolderName: string): FolderChoice[] {
+/**
+ * Lists the session folders under `sessionsRoot`. With a session index, folders are described from it
+ * and ordered most recently used first instead of by name.
+ */
+export function listFolderChoices(
+	sessionsRoot: string,
+	currentFolderName: string,
+	pathMappings: PathMapping[] = [],
+	index?: SessionIndex,
+): FolderChoice[] {
 	if (!existsSync(sessionsRoot)) return [];
 
 	const entries = readdirSync(sessionsRoot, { withFileTypes: true });
@@ -127,28 +603,276 @@ export function listFolderChoices(sessionsRoot: string, currentFolderName: strin
 	for (const entry of entries) {
 		if (!entry.isDirectory() && !entry.isSymbolicLink()) continue;
 
+		if (isBackupFolderName(entry.name) || entry.name === TRASH_DIR_NAME) continue;
+
 		const folderPath = join(sessionsRoot, entry.name);
 		if (!isDirectoryLike(folderPath)) continue;
 
+		const isCurrent = entry.name === currentFolderName;
+		const summary = index?.summarizeFolder(folderPath);
 		choices.push({
 			name: entry.name,
 			path: folderPath,
-			sessionCount: countSessionFiles(folderPath),
-			isCurrent: entry.name === currentFolderName,
+			sessionCount: summary?.sessionCount ?? countSessionFiles(folderPath),
+			isCurrent,
+			isSuggested: !isCurrent && mapFolderName(entry.name, pathMappings) === currentFolderName,
+			lastModified: summary?.lastModified,
+			cwd: summary?.cwd,
 		});
 	}
 
 	choices.sort((a, b) => {
+		if (a.isSuggested !== b.isSuggested) return a.isSuggested ? -1 : 1;
 		if (a.isCurrent !== b.isCurrent) return a.isCurrent ? -1 : 1;
+		if (index) {
+			const recency = (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0);
+			if (recency !== 0) return recency;
+		}
 		return a.name.localeCompare(b.name);
 	});
 
 	return choices;
 }
 
-export function createLinkTransaction(currentSessionDir: string, targetPath: string): LinkTransaction {
+/** True when a session root can be listed right now, i.e. its share or disk is mounted. */
+export function isSessionRootReachable(rootPath: string): boolean {
+	try {
+		readdirSync(rootPath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Lists the folders of the current sessions root followed by those of each extra root, grouped by root.
+ * In an extra root, the folder named like the current one is the same project and is suggested.
+ */
+export function listRootFolderChoices(
+	sessionsRoot: string,
+	extraRoots: SessionRoot[],
+	currentFolderName: string,
+	pathMappings: PathMapping[] = [],
+	index?: SessionIndex,
+): RootFolderChoices {
+	const choices = listFolderChoices(sessionsRoot, currentFolderName, pathMappings, index);
+	const unreachable: SessionRoot[] = [];
+
+	for (const root of extraRoots) {
+		if (resolve(root.path) === resolve(sessionsRoot)) continue;
+		if (!isSessionRootReachable(root.path)) {
+			unreachable.push(root);
+			continue;
+		}
+
+		const rootChoices = listFolderChoices(root.path, currentFolderName, pathMappings, index).map((choice) => ({
+			...choice,
+			root: root.label,
+			isCurrent: false,
+			isSuggested: choice.isSuggested || choice.isCurrent,
+		}));
+		// listFolderChoices put the current folder's name first; it is a suggestion here, so it goes with them.
+		rootChoices.sort((a, b) => Number(b.isSuggested) - Number(a.isSuggested));
+		choices.push(...rootChoices);
+	}
+
+	return { choices, unreachable };
+}
+
+function trimTrailingSeparators(path: string): string {
+	const trimmed = path.replace(/[/\\]+$/, "");
+	return trimmed === "" ? path.slice(0, 1) : trimmed;
+}
+
+function findPathMapping(path: string, pathMappings: PathMapping[]): PathMapping | undefined {
+	let best: PathMapping | undefined;
+	for (const mapping of pathMappings) {
+		const from = trimTrailingSeparators(mapping.from);
+		const matches = path === from || path.startsWith(from.endsWith("/") ? from : `${from}/`);
+		if (matches && (!best || from.length > trimTrailingSeparators(best.from).length)) {
+			best = mapping;
+		}
+	}
+	return best;
+}
+
+/** Rewrites a path recorded on another machine using the longest matching prefix rule. */
+export function applyPathMappings(path: string, pathMappings: PathMapping[]): string | undefined {
+	const mapping = findPathMapping(path, pathMappings);
+	if (!mapping) return undefined;
+	return `${trimTrailingSeparators(mapping.to)}${path.slice(trimTrailingSeparators(mapping.from).length)}`;
+}
+
+/** Applies path-mapping rules to an encoded session folder name. */
+export function mapFolderName(name: string, pathMappings: PathMapping[]): string | undefined {
+	let best: { prefix: string; replacement: string } | undefined;
+	for (const mapping of pathMappings) {
+		const prefix = encodeFolderName(trimTrailingSeparators(mapping.from)).slice(0, -2);
+		if (name !== `${prefix}--` && !name.startsWith(`${prefix}-`)) continue;
+		if (!best || prefix.length > best.prefix.length) {
+			best = { prefix, replacement: encodeFolderName(trimTrailingSeparators(mapping.to)).slice(0, -2) };
+		}
+	}
+	if (!best) return undefined;
+	return `${best.replacement}${name.slice(best.prefix.length)}`;
+}
+
+/** Derives a prefix rule from two cwds that share a trailing path, e.g. /Users/a/x and /home/a/x. */
+export function suggestPathMapping(foreignCwd: string, localCwd: string): PathMapping | undefined {
+	const foreign = trimTrailingSeparators(foreignCwd).split(/[/\\]/);
+	const local = trimTrailingSeparators(localCwd).split(/[/\\]/);
+
+	let shared = 0;
+	while (
+		shared < foreign.length - 1 &&
+		shared < local.length - 1 &&
+		foreign[foreign.length - 1 - shared] === local[local.length - 1 - shared]
+	) {
+		shared += 1;
+	}
+
+	const from = foreign.slice(0, foreign.length - shared).join("/") || "/";
+	const to = local.slice(0, local.length - shared).join("/") || "/";
+	if (from === to) return undefined;
+	return { from, to };
+}
+
+export function normalizeGitRemote(url: string): string {
+	return url
+		.trim()
+		.replace(/^[a-z+]+:\/\//i, "")
+		.replace(/^[^@/]+@/, "")
+		.replace(/:(?!\d+\/)/, "/")
+		.replace(/:\d+\//, "/")
+		.replace(/\.git$/, "")
+		.replace(/\/+$/, "")
+		.toLowerCase();
+}
+
+const CANDIDATE_REASON_ORDER: LinkCandidateReason[] = ["path-mapping", "git-remote", "basename"];
+
+/**
+ * Finds folders whose sessions were probably recorded for the current cwd on another machine.
+ * `getGitRemote` is only asked about cwds that exist locally.
+ */
+export async function findLinkCandidates(
+	choices: FolderChoice[],
+	currentCwd: string,
+	pathMappings: PathMapping[],
+	getGitRemote?: (cwd: string) => Promise<string | undefined>,
+): Promise<LinkCandidate[]> {
+	const currentBasename = basename(currentCwd);
+	const currentRemote = getGitRemote ? await getGitRemote(currentCwd) : undefined;
+	const candidates: LinkCandidate[] = [];
+
+	for (const folder of choices) {
+		if (folder.isCurrent || folder.sessionCount === 0) continue;
+
+		const cwd = readFolderCwd(folder.path);
+		if (folder.isSuggested || (cwd && applyPathMappings(cwd, pathMappings) === currentCwd)) {
+			candidates.push({ folder, cwd, reason: "path-mapping" });
+			continue;
+		}
+		if (!cwd || cwd === currentCwd) continue;
+
+		if (currentRemote && getGitRemote && isDirectoryLike(cwd)) {
+			const remote = await getGitRemote(cwd);
+			if (remote && normalizeGitRemote(remote) === normalizeGitRemote(currentRemote)) {
+				candidates.push({ folder, cwd, reason: "git-remote" });
+				continue;
+			}
+		}
+
+		if (basename(cwd) === currentBasename) {
+			candidates.push({ folder, cwd, reason: "basename" });
+		}
+	}
+
+	return candidates.sort(
+		(a, b) =>
+			CANDIDATE_REASON_ORDER.indexOf(a.reason) - CANDIDATE_REASON_ORDER.indexOf(b.reason) ||
+			a.folder.name.localeCompare(b.folder.name),
+	);
+}
+
+/**
+ * Picks the cwd a session recorded under `recordedCwd` should have here: the mapped path when a
+ * path-mapping rule applies, otherwise `currentCwd`. Returns undefined when nothing needs to change.
+ */
+export function resolveSessionCwd(
+	recordedCwd: string,
+	currentCwd: string,
+	pathMappings: PathMapping[],
+): string | undefined {
+	const cwd = applyPathMappings(recordedCwd, pathMappings) ?? currentCwd;
+	return trimTrailingSeparators(cwd) === trimTrailingSeparators(recordedCwd) ? undefined : cwd;
+}
+
+export function upsertPathMapping(pathMappings: PathMapping[], mapping: PathMapping): PathMapping[] {
+	const from = trimTrailingSeparators(mapping.from);
+	const next = pathMappings.filter((existing) => trimTrailingSeparators(existing.from) !== from);
+	next.push({ from, to: trimTrailingSeparators(mapping.to) });
+	return next;
+}
+
+/**
+ * Follows symlinks from `path` one hop at a time, recording every link on the way.
+ * Detects cycles and chains that end in a missing path.
+ */
+export function resolveSymlinkChain(path: string): SymlinkChain {
+	const links: string[] = [];
+	let current = resolve(path);
+
+	for (let hop = 0; hop <= MAX_SYMLINK_HOPS; hop += 1) {
+		const kind = getPathKind(current);
+		if (kind === "missing") {
+			return { links, final: current, status: links.length === 0 ? "missing" : "dangling" };
+		}
+		if (kind !== "symlink") return { links, final: current, status: "ok" };
+		if (links.includes(current)) return { links, status: "cycle" };
+
+		links.push(current);
+		const next = readSymlinkTarget(current);
+		if (!next) return { links, status: "dangling" };
+		current = next;
+	}
+
+	return { links, status: "cycle" };
+}
+
+function createDirectoryLink(targetPath: string, linkPath: string, relativeLink: boolean): void {
+	if (process.platform === "win32") {
+		// Junctions only take absolute targets.
+		if (relativeLink) throw new Error("Relative links are not supported on Windows");
+		symlinkSync(targetPath, linkPath, "junction");
+		return;
+	}
+	symlinkSync(relativeLink ? relative(dirname(linkPath), targetPath) : targetPath, linkPath, "dir");
+}
+
+/**
+ * Picks the real directory a new link at `currentDir` should point at: the end of the target's
+ * symlink chain. Throws when the chain is a cycle or runs through `currentDir` itself.
+ */
+function resolveLinkDestination(currentDir: string, targetPath: string): string {
+	const chain = resolveSymlinkChain(targetPath);
+	if (chain.status === "cycle") {
+		throw new Error(`Refusing to link: ${targetPath} is part of a symlink cycle`);
+	}
+	if (chain.links.includes(currentDir) || chain.final === currentDir) {
+		throw new Error(`Refusing to link: ${targetPath} resolves through ${currentDir}, which would create a symlink cycle`);
+	}
+	return chain.final ?? targetPath;
+}
+
+/**
+ * Plans a link from `currentSessionDir` to `targetPath`, or with `mirror` a folder holding copies of the
+ * target's sessions. Throws for links that can never be made, such as cycles; risky but possible changes
+ * are listed in `warnings`.
+ */
+export function planLink(currentSessionDir: string, targetPath: string, options: LinkOptions = {}): LinkPlan {
 	const resolvedCurrentDir = resolve(currentSessionDir);
-	const resolvedTargetPath = resolve(targetPath);
+	const resolvedTargetPath = resolveLinkDestination(resolvedCurrentDir, resolve(targetPath));
 
 	if (!isDirectoryLike(resolvedTargetPath)) {
 		throw new Error(`Target is not a directory: ${resolvedTargetPath}`);
@@ -158,52 +882,688 @@ export function createLinkTransaction(currentSessionDir: string, targetPath: str
 	if (currentKind === "other") {
 		throw new Error(`Refusing to overwrite non-directory/non-symlink path: ${resolvedCurrentDir}`);
 	}
+	if (options.relative && !options.mirror && process.platform === "win32") {
+		throw new Error("Relative links are not supported on Windows");
+	}
 
-	mkdirSync(dirname(resolvedCurrentDir), { recursive: true });
+	const operations: LinkOperation[] = [];
+	const warnings: string[] = [];
+	const affectedSessions = currentKind === "directory" ? countSessionFiles(resolvedCurrentDir) : 0;
 
-	let backupPath: string | undefined;
-	if (currentKind !== "missing") {
-		backupPath = makeUniqueBackupPath(resolvedCurrentDir);
-		renameSync(resolvedCurrentDir, backupPath);
+	if (resolvedTargetPath !== resolve(targetPath)) {
+		warnings.push(
+			options.mirror
+				? `${targetPath} is a link; the mirror copies the end of its chain, ${resolvedTargetPath}.`
+				: `${targetPath} is a link; the new link points at the end of its chain, ${resolvedTargetPath}.`,
+		);
+	}
+	if (currentKind === "symlink" && !isDirectoryLike(resolvedCurrentDir)) {
+		warnings.push(`${basename(resolvedCurrentDir)} is a dangling link; it is replaced.`);
+	}
+
+	const merged = options.merge && currentKind === "directory" ? planSessionMerge(resolvedCurrentDir, resolvedTargetPath) : [];
+	if (options.merge && currentKind === "directory") {
+		for (const file of merged) {
+			operations.push({ kind: "merge-file", file });
+		}
+	} else if (affectedSessions > 0) {
+		warnings.push(
+			`${affectedSessions} session${affectedSessions === 1 ? "" : "s"} in ${basename(resolvedCurrentDir)} will be moved to the trash.`,
+		);
 	}
 
+	const backupPath = currentKind === "missing" ? undefined : makeUniqueBackupPath(resolvedCurrentDir);
+	if (backupPath) {
+		operations.push({ kind: "rename-to-backup", path: resolvedCurrentDir, pathKind: currentKind, backupPath });
+	}
+	if (options.mirror) {
+		// Merged sessions are copied back along with the target's own.
+		const names = new Set([...listSessionFileNames(resolvedTargetPath), ...merged.map((file) => basename(file.destination))]);
+		operations.push(
+			{ kind: "create-directory", path: resolvedCurrentDir },
+			{ kind: "copy-sessions", sourceDir: resolvedTargetPath, path: resolvedCurrentDir, names: [...names].sort() },
+			{ kind: "write-mirror-marker", path: resolvedCurrentDir, target: resolvedTargetPath },
+		);
+	} else {
+		operations.push({
+			kind: "create-symlink",
+			path: resolvedCurrentDir,
+			target: resolvedTargetPath,
+			relative: options.relative ?? false,
+		});
+	}
+	if (backupPath) {
+		// Merged sessions live on in the target, so only a replaced folder loses sessions with its backup.
+		operations.push({ kind: "trash-backup", backupPath, sessionCount: options.merge ? 0 : affectedSessions });
+	}
+
+	return { currentDir: resolvedCurrentDir, currentKind, target: resolvedTargetPath, operations, warnings, affectedSessions };
+}
+
+/** Throws when the filesystem no longer looks the way it did when `plan` was made. */
+function assertPlanIsCurrent(plan: LinkPlan): void {
+	const changed = (what: string) =>
+		new Error(`${what} changed since the link was planned; nothing was changed, plan the link again`);
+
+	if (getPathKind(plan.currentDir) !== plan.currentKind) throw changed(plan.currentDir);
+	if (plan.currentKind === "directory" && countSessionFiles(plan.currentDir) !== plan.affectedSessions) {
+		throw changed(`The sessions in ${plan.currentDir}`);
+	}
+	if (getPathKind(plan.target) !== "directory") throw changed(plan.target);
+
+	for (const operation of plan.operations) {
+		const path =
+			operation.kind === "merge-file"
+				? operation.file.destination
+				: operation.kind === "rename-to-backup"
+					? operation.backupPath
+					: undefined;
+		if (path && pathExists(path)) throw changed(path);
+	}
+}
+
+/** Carries out exactly the operations in `plan`, after checking that nothing changed since it was made. */
+export function executeLinkPlan(plan: LinkPlan): LinkTransaction {
+	assertPlanIsCurrent(plan);
+	const resolvedCurrentDir = plan.currentDir;
+
+	mkdirSync(dirname(resolvedCurrentDir), { recursive: true });
+
+	const merged = copyMergedFiles(
+		plan.operations.flatMap((operation) => (operation.kind === "merge-file" ? [operation.file] : [])),
+	);
+	const removeMerged = () => {
+		for (const file of merged) {
+			rmSync(file.destination, { force: true });
+		}
+	};
+
+	let backupPath: string | undefined;
+	let created = false;
 	try {
-		const symlinkType = process.platform === "win32" ? "junction" : "dir";
-		symlinkSync(resolvedTargetPath, resolvedCurrentDir, symlinkType);
+		for (const operation of plan.operations) {
+			if (operation.kind === "rename-to-backup") {
+				renameSync(operation.path, operation.backupPath);
+				backupPath = operation.backupPath;
+			} else if (operation.kind === "create-symlink") {
+				createDirectoryLink(operation.target, operation.path, operation.relative);
+				created = true;
+			} else if (operation.kind === "create-directory") {
+				mkdirSync(operation.path);
+				created = true;
+			} else if (operation.kind === "copy-sessions") {
+				for (const name of operation.names) {
+					const source = join(operation.sourceDir, name);
+					const destination = join(operation.path, name);
+					copyFileSync(source, destination, constants.COPYFILE_EXCL);
+					const { atime, mtime } = statSync(source);
+					utimesSync(destination, atime, mtime);
+				}
+			} else if (operation.kind === "write-mirror-marker") {
+				writeMirrorMarker(operation.path, { target: operation.target, createdAt: new Date().toISOString() });
+			}
+		}
+
+		const chain = resolveSymlinkChain(resolvedCurrentDir);
+		if (chain.status !== "ok" || !isDirectoryLike(resolvedCurrentDir)) {
+			throw new Error(`New link ${resolvedCurrentDir} does not resolve to a directory (${chain.status})`);
+		}
 	} catch (err) {
-		if (backupPath && existsSync(backupPath)) {
+		if (created) safeRemovePath(resolvedCurrentDir);
+		if (backupPath && pathExists(backupPath)) {
 			try {
 				renameSync(backupPath, resolvedCurrentDir);
 			} catch {
 				// ignore
 			}
 		}
+		removeMerged();
 		throw err;
 	}
 
 	let closed = false;
 
-	return {
+	const transaction: LinkTransaction = {
+		merged,
+		backupPath,
 		rollback() {
 			if (closed) return;
 			closed = true;
 
 			safeRemovePath(resolvedCurrentDir);
-			if (backupPath && existsSync(backupPath)) {
+			if (backupPath && pathExists(backupPath)) {
 				renameSync(backupPath, resolvedCurrentDir);
 			}
+			removeMerged();
+		},
+		commit() {
+			if (closed) return;
+			closed = true;
+
+			for (const operation of plan.operations) {
+				if (operation.kind !== "trash-backup" || !pathExists(operation.backupPath)) continue;
+				// A merged folder's sessions all live on in the target, so its backup is not worth keeping.
+				if (operation.sessionCount > 0) {
+					transaction.trashPath = disposeBackup(operation.backupPath, resolvedCurrentDir);
+				} else {
+					safeRemovePath(operation.backupPath);
+				}
+			}
+		},
+	};
+	return transaction;
+}
+
+export function createLinkTransaction(
+	currentSessionDir: string,
+	targetPath: string,
+	options: LinkOptions = {},
+): LinkTransaction {
+	return executeLinkPlan(planLink(currentSessionDir, targetPath, options));
+}
+
+export function formatLinkOperation(operation: LinkOperation): string {
+	switch (operation.kind) {
+		case "merge-file": {
+			const { file } = operation;
+			const renamed = file.renamed ? ` as ${basename(file.destination)}` : "";
+			return `Copy ${basename(file.source)} into ${basename(dirname(file.destination))}${renamed}`;
+		}
+		case "rename-to-backup":
+			return `Move ${basename(operation.path)} (${operation.pathKind}) aside to ${basename(operation.backupPath)}`;
+		case "create-symlink":
+			return `Create ${operation.relative ? "relative " : ""}symlink ${basename(operation.path)} → ${operation.target}`;
+		case "create-directory":
+			return `Create folder ${basename(operation.path)}`;
+		case "copy-sessions": {
+			const count = operation.names.length;
+			return `Copy ${count} session${count === 1 ? "" : "s"} from ${basename(operation.sourceDir)} into ${basename(operation.path)}`;
+		}
+		case "write-mirror-marker":
+			return `Write ${MIRROR_MARKER_FILE_NAME} recording ${operation.target} as the mirrored folder`;
+		case "trash-backup":
+			return operation.sessionCount > 0
+				? `Move ${basename(operation.backupPath)} with its ${operation.sessionCount} session${operation.sessionCount === 1 ? "" : "s"} to the trash once the new session is open`
+				: `Remove ${basename(operation.backupPath)} once the new session is open`;
+	}
+}
+
+/** Renders a plan as the lines shown in the confirm dialog and printed by `--dry-run`. */
+export function formatLinkPlan(plan: LinkPlan): string {
+	const lines = plan.operations.map((operation) => `- ${formatLinkOperation(operation)}.`);
+	for (const warning of plan.warnings) {
+		lines.push(`Warning: ${warning}`);
+	}
+	lines.push(`Sessions affected: ${plan.affectedSessions}`);
+	return lines.join("\n");
+}
+
+export function createUnlinkTransaction(currentSessionDir: string, mode: UnlinkMode): LinkTransaction {
+	const resolvedCurrentDir = resolve(currentSessionDir);
+
+	if (getPathKind(resolvedCurrentDir) !== "symlink") {
+		throw new Error(`Current session path is not a symlink: ${resolvedCurrentDir}`);
+	}
+
+	const targetPath = resolveLinkTarget(resolvedCurrentDir);
+	if (mode !== "empty" && (!targetPath || !isDirectoryLike(targetPath))) {
+		throw new Error(`Linked target is not a directory: ${targetPath ?? resolvedCurrentDir}`);
+	}
+
+	const backupPath = makeUniqueBackupPath(resolvedCurrentDir);
+	renameSync(resolvedCurrentDir, backupPath);
+
+	const movedNames: string[] = [];
+
+	const restore = () => {
+		if (targetPath) {
+			for (const name of movedNames) {
+				renameSync(join(resolvedCurrentDir, name), join(targetPath, name));
+			}
+		}
+		movedNames.length = 0;
+		safeRemovePath(resolvedCurrentDir);
+		renameSync(backupPath, resolvedCurrentDir);
+	};
+
+	try {
+		mkdirSync(resolvedCurrentDir);
+		if (targetPath && mode !== "empty") {
+			for (const name of listSessionFileNames(targetPath)) {
+				const from = join(targetPath, name);
+				const to = join(resolvedCurrentDir, name);
+				if (mode === "copy") {
+					copyFileSync(from, to, constants.COPYFILE_EXCL);
+				} else {
+					renameSync(from, to);
+					movedNames.push(name);
+				}
+			}
+		}
+	} catch (err) {
+		try {
+			restore();
+		} catch {
+			// ignore
+		}
+		throw err;
+	}
+
+	let closed = false;
+
+	const transaction: LinkTransaction = {
+		backupPath,
+		rollback() {
+			if (closed) return;
+			closed = true;
+
+			restore();
 		},
 		commit() {
 			if (closed) return;
 			closed = true;
 
-			if (backupPath && existsSync(backupPath)) {
+			transaction.trashPath = disposeBackup(backupPath, resolvedCurrentDir);
+		},
+	};
+	return transaction;
+}
+
+/** Lists links in a sessions root that store an absolute target. Backups are skipped. */
+export function findAbsoluteLinks(sessionsRoot: string): AbsoluteLink[] {
+	let names: string[];
+	try {
+		names = readdirSync(sessionsRoot);
+	} catch {
+		return [];
+	}
+
+	const links: AbsoluteLink[] = [];
+	for (const name of names.sort()) {
+		if (isBackupFolderName(name)) continue;
+
+		const path = join(sessionsRoot, name);
+		let target: string;
+		try {
+			target = readlinkSync(path);
+		} catch {
+			continue;
+		}
+		if (!isAbsolute(target)) continue;
+
+		links.push({ name, path, target, relativeTarget: relative(dirname(path), target) });
+	}
+	return links;
+}
+
+/**
+ * Rewrites every given link to its relative target as one unit: if any rewrite fails, the links
+ * already rewritten are put back. Links keep their exact target, even when it is dangling or a chain.
+ */
+export function createRelativeLinksTransaction(links: AbsoluteLink[]): LinkTransaction {
+	if (process.platform === "win32" && links.length > 0) {
+		throw new Error("Relative links are not supported on Windows");
+	}
+
+	const done: Array<{ link: AbsoluteLink; backupPath: string }> = [];
+	const restore = () => {
+		for (const { link, backupPath } of done.reverse()) {
+			safeRemovePath(link.path);
+			renameSync(backupPath, link.path);
+		}
+		done.length = 0;
+	};
+
+	try {
+		for (const link of links) {
+			const backupPath = makeUniqueBackupPath(link.path);
+			renameSync(link.path, backupPath);
+			done.push({ link, backupPath });
+			symlinkSync(link.relativeTarget, link.path, "dir");
+		}
+	} catch (err) {
+		try {
+			restore();
+		} catch {
+			// ignore
+		}
+		throw err;
+	}
+
+	let closed = false;
+
+	return {
+		rollback() {
+			if (closed) return;
+			closed = true;
+
+			restore();
+		},
+		commit() {
+			if (closed) return;
+			closed = true;
+
+			for (const { backupPath } of done) {
 				safeRemovePath(backupPath);
 			}
 		},
 	};
 }
 
+export function tokenizeArgs(args: string): string[] {
+	const tokens: string[] = [];
+	let current = "";
+	let quote: string | undefined;
+	let hasToken = false;
+
+	for (const char of args) {
+		if (quote) {
+			if (char === quote) {
+				quote = undefined;
+			} else {
+				current += char;
+			}
+			continue;
+		}
+		if (char === '"' || char === "'") {
+			quote = char;
+			hasToken = true;
+			continue;
+		}
+		if (/\s/.test(char)) {
+			if (hasToken) tokens.push(current);
+			current = "";
+			hasToken = false;
+			continue;
+		}
+		current += char;
+		hasToken = true;
+	}
+
+	if (quote) throw new Error(`Unterminated quote in arguments: ${args}`);
+	if (hasToken) tokens.push(current);
+	return tokens;
+}
+
+export function parseLinkCommandArgs(args: string): LinkCommandArgs {
+	const parsed: LinkCommandArgs = {
+		subcommandArgs: [],
+		newSession: false,
+		yes: false,
+		dryRun: false,
+		merge: false,
+		replace: false,
+		mirror: false,
+		newIds: false,
+		rewriteCwd: false,
+	};
+	const tokens = tokenizeArgs(args);
+
+	for (let i = 0; i < tokens.length; i += 1) {
+		const token = tokens[i];
+		switch (token) {
+			case "--session": {
+				const value = tokens[i + 1];
+				if (!value || value.startsWith("--")) throw new Error("--session requires a session id or 'latest'");
+				parsed.session = value;
+				i += 1;
+				break;
+			}
+			case "--new":
+				parsed.newSession = true;
+				break;
+			case "--yes":
+			case "-y":
+				parsed.yes = true;
+				break;
+			case "--dry-run":
+				parsed.dryRun = true;
+				break;
+			case "--merge":
+				parsed.merge = true;
+				break;
+			case "--replace":
+				parsed.replace = true;
+				break;
+			case "--rewrite-cwd":
+				parsed.rewriteCwd = true;
+				break;
+			case "--new-ids":
+				parsed.newIds = true;
+				break;
+			case "--mirror":
+				parsed.mirror = true;
+				break;
+			case "--relative":
+			case "--absolute":
+				if (parsed.relative !== undefined) throw new Error("--relative and --absolute cannot be combined");
+				parsed.relative = token === "--relative";
+				break;
+			default:
+				// Encoded folder names look like `--Users-alice-src--`, so only reject dashed tokens that aren't one.
+				if (token.startsWith("--") && !isEncodedFolderName(token)) throw new Error(`Unknown option: ${token}`);
+				if (parsed.subcommand) {
+					parsed.subcommandArgs.push(token);
+				} else if (parsed.folder === undefined && isLinkSubcommand(token)) {
+					parsed.subcommand = token;
+				} else if (parsed.folder === undefined) {
+					parsed.folder = token;
+				} else {
+					throw new Error(`Unexpected argument: ${token}`);
+				}
+		}
+	}
+
+	if (parsed.session && parsed.newSession) throw new Error("--session and --new cannot be combined");
+	if (parsed.merge && parsed.replace) throw new Error("--merge and --replace cannot be combined");
+	if (parsed.mirror && parsed.relative !== undefined) throw new Error("--mirror cannot be combined with --relative or --absolute");
+	return parsed;
+}
+
+function isLinkSubcommand(token: string): token is LinkSubcommand {
+	return (LINK_SUBCOMMANDS as readonly string[]).includes(token);
+}
+
+function isEncodedFolderName(token: string): boolean {
+	return token.length > 4 && token.startsWith("--") && token.endsWith("--");
+}
+
+/** Encodes a cwd the same way pi names its session folders. */
+export function encodeFolderName(cwd: string): string {
+	return `--${cwd.replace(/^[/\\]/, "").replace(/[/\\:]/g, "-")}--`;
+}
+
+/** Best-effort inverse of encodeFolderName; dashes inside path segments cannot be told apart from separators. */
+export function decodeFolderName(name: string): string {
+	const match = /^--(.*)--$/.exec(name);
+	if (!match) return name;
+	return `/${match[1].replace(/-/g, "/")}`;
+}
+
+function isSubsequence(query: string, text: string): boolean {
+	let index = 0;
+	for (const char of text) {
+		if (char === query[index]) index += 1;
+		if (index === query.length) return true;
+	}
+	return query.length === 0;
+}
+
+function scoreFolderMatch(choice: FolderChoice, query: string): number {
+	if (choice.name === query) return 100;
+	if (choice.name === encodeFolderName(query.replace(/[/\\]+$/, ""))) return 90;
+
+	const lowerQuery = query.toLowerCase();
+	const lowerName = choice.name.toLowerCase();
+	const lowerDecoded = decodeFolderName(choice.name).toLowerCase();
+	const lowerEncodedQuery = lowerQuery.replace(/[/\\:]/g, "-");
+
+	if (lowerName.endsWith(`${lowerEncodedQuery}--`)) return 70;
+	if (lowerName.includes(lowerEncodedQuery) || lowerDecoded.includes(lowerQuery)) return 50;
+	if (isSubsequence(lowerEncodedQuery, lowerName)) return 10;
+	return 0;
+}
+
+function rankFolderMatches(choices: FolderChoice[], query: string): Array<{ choice: FolderChoice; score: number }> {
+	return choices
+		.map((choice) => ({ choice, score: scoreFolderMatch(choice, query) }))
+		.filter((entry) => entry.score > 0)
+		.sort((a, b) => b.score - a.score || a.choice.name.localeCompare(b.choice.name));
+}
+
+/** Returns the folders matching a name, cwd path or fuzzy query, best matches first. */
+export function matchFolderChoices(choices: FolderChoice[], query: string): FolderChoice[] {
+	return rankFolderMatches(choices, query).map((entry) => entry.choice);
+}
+
+/** Returns only the top-scoring matches: a single folder when the query is unambiguous. */
+export function bestFolderMatches(choices: FolderChoice[], query: string): FolderChoice[] {
+	const ranked = rankFolderMatches(choices, query);
+	const topScore = ranked[0]?.score;
+	return ranked.filter((entry) => entry.score === topScore).map((entry) => entry.choice);
+}
+
+/** Keeps sessions whose name, first message, cwd or id contain every word of `filter`, ignoring case. */
+export function filterSessions<T extends SessionPreviewInfo & { id: string; cwd: string }>(sessions: T[], filter: string): T[] {
+	const words = filter.toLowerCase().split(/\s+/).filter(Boolean);
+	if (words.length === 0) return sessions;
+
+	return sessions.filter((session) => {
+		const text = `${session.name ?? ""} ${session.firstMessage ?? ""} ${session.cwd} ${session.id}`.toLowerCase();
+		return words.every((word) => text.includes(word));
+	});
+}
+
+export function findSessionByQuery<T extends { id: string; modified: Date }>(sessions: T[], query: string): T | undefined {
+	if (query === "latest") {
+		let latest: T | undefined;
+		for (const session of sessions) {
+			if (!latest || session.modified.getTime() > latest.modified.getTime()) latest = session;
+		}
+		return latest;
+	}
+
+	const exact = sessions.find((session) => session.id === query);
+	if (exact) return exact;
+
+	const prefixed = sessions.filter((session) => session.id.startsWith(query));
+	return prefixed.length === 1 ? prefixed[0] : undefined;
+}
+
+/**
+ * Puts `restoreFrom` back at the current session path (or leaves the path empty when it is undefined).
+ * Whatever is at the current path is kept as a backup until commit.
+ */
+export function createRestoreTransaction(currentSessionDir: string, restoreFrom?: string): LinkTransaction {
+	const resolvedCurrentDir = resolve(currentSessionDir);
+
+	if (restoreFrom !== undefined && getPathKind(restoreFrom) === "missing") {
+		throw new Error(`Nothing to restore at ${restoreFrom}`);
+	}
+
+	const currentKind = getPathKind(resolvedCurrentDir);
+	if (currentKind === "other") {
+		throw new Error(`Refusing to overwrite non-directory/non-symlink path: ${resolvedCurrentDir}`);
+	}
+
+	let backupPath: string | undefined;
+	if (currentKind !== "missing") {
+		backupPath = makeUniqueBackupPath(resolvedCurrentDir);
+		renameSync(resolvedCurrentDir, backupPath);
+	}
+
+	const putBack = () => {
+		if (backupPath && pathExists(backupPath)) {
+			renameSync(backupPath, resolvedCurrentDir);
+		}
+	};
+
+	if (restoreFrom !== undefined) {
+		try {
+			renameSync(restoreFrom, resolvedCurrentDir);
+		} catch (err) {
+			try {
+				putBack();
+			} catch {
+				// ignore
+			}
+			throw err;
+		}
+	}
+
+	let closed = false;
+
+	const transaction: LinkTransaction = {
+		backupPath,
+		rollback() {
+			if (closed) return;
+			closed = true;
+
+			if (restoreFrom !== undefined) {
+				renameSync(resolvedCurrentDir, restoreFrom);
+			}
+			putBack();
+		},
+		commit() {
+			if (closed) return;
+			closed = true;
+
+			if (backupPath) {
+				transaction.trashPath = disposeBackup(backupPath, resolvedCurrentDir);
+			}
+		},
+	};
+	return transaction;
+}
+
+/**
+ * Rewrites the cwd in a session file's header. The file is replaced atomically and the original is
+ * kept next to it as a backup until commit; rollback puts the original back. Sessions in a mirrored
+ * folder are refused: mirrors only sync sessions that grow, so a changed header would stop them syncing.
+ */
+export function createSessionCwdTransaction(sessionFile: string, cwd: string): LinkTransaction {
+	if (pathExists(getMirrorMarkerPath(dirname(resolve(sessionFile))))) {
+		throw new Error(`${basename(sessionFile)} is in a mirrored folder; its cwd can't be rewritten`);
+	}
+	// Adopted sessions may be symlinks; rewrite the file they point at instead of replacing the link.
+	const filePath = resolveLinkTarget(sessionFile) ?? resolve(sessionFile);
+	const text = readFileSync(filePath, "utf8");
+	const newline = text.indexOf("\n");
+	const header = JSON.parse(newline === -1 ? text : text.slice(0, newline));
+	if (header?.type !== "session") throw new Error(`Not a session file: ${filePath}`);
+
+	const rest = newline === -1 ? "" : text.slice(newline);
+	const backupPath = makeUniqueBackupPath(filePath);
+	const tempPath = `${filePath}.tmp-${process.pid}`;
+	try {
+		copyFileSync(filePath, backupPath, constants.COPYFILE_EXCL);
+		writeFileSync(tempPath, `${JSON.stringify({ ...header, cwd })}${rest}`);
+		renameSync(tempPath, filePath);
+	} catch (err) {
+		rmSync(tempPath, { force: true });
+		rmSync(backupPath, { force: true });
+		throw err;
+	}
+
+	let closed = false;
+
+	return {
+		backupPath,
+		rollback() {
+			if (closed) return;
+			closed = true;
+
+			renameSync(backupPath, filePath);
+		},
+		commit() {
+			if (closed) return;
+			closed = true;
+
+			rmSync(backupPath, { force: true });
+		},
+	};
+}
+
 export function formatSessionOption(session: SessionPreviewInfo, index: number): string {
 	const title = normalizeSnippet(session.name ?? session.firstMessage ?? "(untitled)");
 	const messageText = `${session.messageCount} msg${session.messageCount === 1 ? "" : "s"}`;
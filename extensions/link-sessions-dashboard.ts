@@ -0,0 +1,172 @@
+import { existsSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import {
+	TRASH_DIR_NAME,
+	decodeFolderName,
+	getPathKind,
+	isBackupFolderName,
+	listSessionFileNames,
+	readFolderCwd,
+	resolveLinkTarget,
+	resolveSymlinkChain,
+	tokenizeArgs,
+} from "./link-sessions-core.ts";
+import { readMirrorMarker } from "./link-sessions-mirror.ts";
+
+export type FolderLinkStatus = "directory" | "mirror" | "symlink" | "dangling";
+
+export const FOLDER_SORT_KEYS = ["name", "size", "sessions", "activity", "links"] as const;
+
+export type FolderSortKey = (typeof FOLDER_SORT_KEYS)[number];
+
+export interface FolderStats {
+	name: string;
+	path: string;
+	status: FolderLinkStatus;
+	/** Final folder of a symlink chain, or the folder a mirror copies. */
+	target?: string;
+	/** Bytes of session files seen through the folder; for a link, those of its target. */
+	size: number;
+	sessionCount: number;
+	/** Modification time of the newest session file. */
+	lastActivity?: Date;
+	/** Number of other folders in the root that link to or mirror this one. */
+	inboundLinks: number;
+	cwd: string;
+	/** "recorded" when a session header holds the cwd, "decoded" when it was guessed from the folder name. */
+	cwdSource: "recorded" | "decoded";
+	cwdExists: boolean;
+}
+
+export interface FolderStatsTotals {
+	folders: number;
+	/** Real directories and mirrors; only these hold data of their own. */
+	realFolders: number;
+	links: number;
+	dangling: number;
+	/** Size and session count of real folders, so linked sessions are not counted twice. */
+	size: number;
+	sessionCount: number;
+}
+
+function readSessionFileStats(folderPath: string): { size: number; sessionCount: number; lastActivity?: Date } {
+	let size = 0;
+	let newest: number | undefined;
+	const names = listSessionFileNames(folderPath);
+	for (const name of names) {
+		try {
+			const stats = statSync(join(folderPath, name));
+			size += stats.size;
+			if (newest === undefined || stats.mtimeMs > newest) newest = stats.mtimeMs;
+		} catch {
+			// removed while scanning
+		}
+	}
+	return { size, sessionCount: names.length, lastActivity: newest === undefined ? undefined : new Date(newest) };
+}
+
+/** Describes every session folder in a sessions root, including dangling links. Backups and the trash are skipped. */
+export function collectFolderStats(sessionsRoot: string): FolderStats[] {
+	let names: string[];
+	try {
+		names = readdirSync(sessionsRoot);
+	} catch {
+		return [];
+	}
+
+	const stats: FolderStats[] = [];
+	for (const name of names.sort()) {
+		if (isBackupFolderName(name) || name === TRASH_DIR_NAME) continue;
+
+		const path = join(sessionsRoot, name);
+		const kind = getPathKind(path);
+		if (kind !== "directory" && kind !== "symlink") continue;
+
+		let status: FolderLinkStatus = "directory";
+		let target: string | undefined;
+		if (kind === "symlink") {
+			const chain = resolveSymlinkChain(path);
+			status = chain.status === "ok" && chain.final && getPathKind(chain.final) === "directory" ? "symlink" : "dangling";
+			target = chain.final;
+		} else {
+			target = readMirrorMarker(path)?.target;
+			if (target) status = "mirror";
+		}
+
+		const recordedCwd = status === "dangling" ? undefined : readFolderCwd(path);
+		const cwd = recordedCwd ?? decodeFolderName(name);
+		stats.push({
+			name,
+			path,
+			status,
+			target,
+			...(status === "dangling" ? { size: 0, sessionCount: 0 } : readSessionFileStats(path)),
+			inboundLinks: 0,
+			cwd,
+			cwdSource: recordedCwd ? "recorded" : "decoded",
+			cwdExists: existsSync(cwd),
+		});
+	}
+
+	// Count links and mirrors by the real folder they end at, so chains and relative links are matched too.
+	const byRealPath = new Map<string, FolderStats>();
+	for (const folder of stats) {
+		if (folder.status === "directory" || folder.status === "mirror") {
+			byRealPath.set(resolveLinkTarget(folder.path) ?? folder.path, folder);
+		}
+	}
+	for (const folder of stats) {
+		if ((folder.status !== "symlink" && folder.status !== "mirror") || !folder.target) continue;
+		const linked = byRealPath.get(resolveLinkTarget(folder.target) ?? folder.target);
+		if (linked && linked !== folder) linked.inboundLinks += 1;
+	}
+
+	return stats;
+}
+
+function isFolderSortKey(value: string): value is FolderSortKey {
+	return (FOLDER_SORT_KEYS as readonly string[]).includes(value);
+}
+
+/** Parses `/session-folders [--sort <column>]`; folders are sorted by size by default. */
+export function parseDashboardArgs(args: string): FolderSortKey {
+	let sortKey: FolderSortKey = "size";
+	const tokens = tokenizeArgs(args);
+	for (let i = 0; i < tokens.length; i += 1) {
+		if (tokens[i] !== "--sort") throw new Error(`Unexpected argument: ${tokens[i]}`);
+		const value = tokens[i + 1];
+		if (!value || !isFolderSortKey(value)) throw new Error(`--sort requires one of: ${FOLDER_SORT_KEYS.join(", ")}`);
+		sortKey = value;
+		i += 1;
+	}
+	return sortKey;
+}
+
+/** Sorts by the given column: names A–Z, everything else largest or most recent first. */
+export function sortFolderStats(stats: FolderStats[], key: FolderSortKey): FolderStats[] {
+	const byName = (a: FolderStats, b: FolderStats) => a.name.localeCompare(b.name);
+	const compare: Record<FolderSortKey, (a: FolderStats, b: FolderStats) => number> = {
+		name: byName,
+		size: (a, b) => b.size - a.size || byName(a, b),
+		sessions: (a, b) => b.sessionCount - a.sessionCount || byName(a, b),
+		activity: (a, b) => (b.lastActivity?.getTime() ?? 0) - (a.lastActivity?.getTime() ?? 0) || byName(a, b),
+		links: (a, b) => b.inboundLinks - a.inboundLinks || byName(a, b),
+	};
+	return [...stats].sort(compare[key]);
+}
+
+export function summarizeFolderStats(stats: FolderStats[]): FolderStatsTotals {
+	const totals: FolderStatsTotals = { folders: stats.length, realFolders: 0, links: 0, dangling: 0, size: 0, sessionCount: 0 };
+	for (const folder of stats) {
+		if (folder.status === "symlink") {
+			totals.links += 1;
+		} else if (folder.status === "dangling") {
+			totals.dangling += 1;
+		} else {
+			totals.realFolders += 1;
+			totals.size += folder.size;
+			totals.sessionCount += folder.sessionCount;
+		}
+	}
+	return totals;
+}
@@ -0,0 +1,108 @@
+import { readdirSync } from "node:fs";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import {
+	type LinkTransaction,
+	type SymlinkChain,
+	createLinkTransaction,
+	createRestoreTransaction,
+	createUnlinkTransaction,
+	getPathKind,
+	isBackupFolderName,
+	isRelativeLink,
+	resolveLinkTarget,
+	resolveSymlinkChain,
+	shortenPath,
+} from "./link-sessions-core.ts";
+
+export type DoctorIssueKind = "dangling" | "cycle" | "chain" | "outside-root";
+
+export type DoctorFix = "remove-link" | "relink-final" | "unlink-copy";
+
+export interface DoctorIssue {
+	kind: DoctorIssueKind;
+	name: string;
+	path: string;
+	chain: SymlinkChain;
+	fix: DoctorFix;
+}
+
+function isInside(root: string, path: string): boolean {
+	const rel = relative(root, path);
+	return rel !== "" && !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+/** Checks every symlinked folder in a sessions root. A link can have both a "chain" and an "outside-root" issue. */
+export function diagnoseSessionsRoot(sessionsRoot: string): DoctorIssue[] {
+	let names: string[];
+	try {
+		names = readdirSync(sessionsRoot);
+	} catch {
+		return [];
+	}
+
+	const realRoot = resolveLinkTarget(sessionsRoot) ?? resolve(sessionsRoot);
+	const issues: DoctorIssue[] = [];
+
+	for (const name of names.sort()) {
+		if (isBackupFolderName(name)) continue;
+
+		const path = join(sessionsRoot, name);
+		if (getPathKind(path) !== "symlink") continue;
+
+		const chain = resolveSymlinkChain(path);
+		if (chain.status === "cycle") {
+			issues.push({ kind: "cycle", name, path, chain, fix: "remove-link" });
+			continue;
+		}
+		if (chain.status !== "ok" || !chain.final || getPathKind(chain.final) !== "directory") {
+			issues.push({ kind: "dangling", name, path, chain, fix: "remove-link" });
+			continue;
+		}
+		if (chain.links.length > 1) {
+			issues.push({ kind: "chain", name, path, chain, fix: "relink-final" });
+		}
+
+		const realFinal = resolveLinkTarget(chain.final) ?? chain.final;
+		if (!isInside(realRoot, realFinal)) {
+			issues.push({ kind: "outside-root", name, path, chain, fix: "unlink-copy" });
+		}
+	}
+
+	return issues;
+}
+
+export function describeDoctorIssue(issue: DoctorIssue): string {
+	switch (issue.kind) {
+		case "cycle":
+			return `${issue.name}: symlink cycle through ${issue.chain.links.length} links`;
+		case "dangling":
+			return `${issue.name}: dangling link to ${shortenPath(issue.chain.final ?? "(unknown)")}`;
+		case "chain":
+			return `${issue.name}: chain of ${issue.chain.links.length} links ending at ${shortenPath(issue.chain.final ?? "")}`;
+		case "outside-root":
+			return `${issue.name}: links outside the sessions root to ${shortenPath(issue.chain.final ?? "")}`;
+	}
+}
+
+export function describeDoctorFix(fix: DoctorFix): string {
+	switch (fix) {
+		case "remove-link":
+			return "remove the link";
+		case "relink-final":
+			return "point it straight at the final folder";
+		case "unlink-copy":
+			return "replace it with a real directory holding copies of the sessions";
+	}
+}
+
+export function createDoctorFixTransaction(issue: DoctorIssue): LinkTransaction {
+	switch (issue.fix) {
+		case "remove-link":
+			return createRestoreTransaction(issue.path);
+		case "relink-final":
+			if (!issue.chain.final) throw new Error(`${issue.name} has no final target`);
+			return createLinkTransaction(issue.path, issue.chain.final, { relative: isRelativeLink(issue.path) });
+		case "unlink-copy":
+			return createUnlinkTransaction(issue.path, "copy");
+	}
+}
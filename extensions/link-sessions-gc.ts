@@ -0,0 +1,111 @@
+import { mkdirSync, rmSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { BUNDLE_FILE_EXTENSION, writeBundle } from "./link-sessions-bundle.ts";
+import {
+	type LinkTransaction,
+	createRestoreTransaction,
+	listSessionFileNames,
+	pathExists,
+} from "./link-sessions-core.ts";
+import type { FolderStats } from "./link-sessions-dashboard.ts";
+
+export const GC_ARCHIVE_DIR_NAME = "link-sessions-archive";
+
+export type GcReason = "missing-cwd" | "empty" | "stale";
+
+export type GcAction = "archive" | "delete";
+
+export interface GcCandidate {
+	folder: FolderStats;
+	reasons: GcReason[];
+}
+
+export interface GcOptions {
+	/** Folders without activity for this many days are stale; 0 turns the check off. */
+	staleDays: number;
+	/** Paths that are never collected, such as the current folder. */
+	keep?: string[];
+	now?: number;
+}
+
+export interface GcTransaction extends LinkTransaction {
+	/** Bundle the folder's sessions were archived to. */
+	archivePath?: string;
+}
+
+const DAY_MS = 24 * 60 * 60_000;
+
+/**
+ * Picks the real folders that look abandoned: their cwd is missing on this machine, they hold no
+ * sessions, or they have been idle longer than `staleDays`. Folders that other folders link to or
+ * mirror are left alone, as are links themselves.
+ */
+export function findGcCandidates(stats: FolderStats[], options: GcOptions): GcCandidate[] {
+	const now = options.now ?? Date.now();
+	const keep = new Set((options.keep ?? []).map((path) => resolve(path)));
+	const candidates: GcCandidate[] = [];
+
+	for (const folder of stats) {
+		if (folder.status !== "directory" && folder.status !== "mirror") continue;
+		if (folder.inboundLinks > 0 || keep.has(resolve(folder.path))) continue;
+
+		const reasons: GcReason[] = [];
+		if (!folder.cwdExists) reasons.push("missing-cwd");
+		if (folder.sessionCount === 0) {
+			reasons.push("empty");
+		} else if (
+			options.staleDays > 0 &&
+			folder.lastActivity &&
+			now - folder.lastActivity.getTime() > options.staleDays * DAY_MS
+		) {
+			reasons.push("stale");
+		}
+		if (reasons.length > 0) candidates.push({ folder, reasons });
+	}
+	return candidates;
+}
+
+export function getArchivePath(archiveDir: string, folderName: string): string {
+	let candidate = join(archiveDir, `${folderName}${BUNDLE_FILE_EXTENSION}`);
+	for (let index = 1; pathExists(candidate); index++) {
+		candidate = join(archiveDir, `${folderName}-${index}${BUNDLE_FILE_EXTENSION}`);
+	}
+	return candidate;
+}
+
+/**
+ * Removes a folder from the sessions root. "archive" first packs its sessions into a bundle in
+ * `archiveDir`. Either way the folder is set aside until commit and then goes to the trash, so the
+ * change can be undone from the history or the trash.
+ */
+export function createGcTransaction(folder: FolderStats, action: GcAction, archiveDir: string): GcTransaction {
+	let archivePath: string | undefined;
+	if (action === "archive") {
+		const sessionPaths = listSessionFileNames(folder.path).map((name) => join(folder.path, name));
+		mkdirSync(archiveDir, { recursive: true });
+		archivePath = getArchivePath(archiveDir, folder.name);
+		writeBundle(sessionPaths, archivePath, folder.name);
+	}
+
+	let transaction: LinkTransaction;
+	try {
+		transaction = createRestoreTransaction(folder.path);
+	} catch (err) {
+		if (archivePath) rmSync(archivePath, { force: true });
+		throw err;
+	}
+
+	const gc: GcTransaction = {
+		...transaction,
+		archivePath,
+		rollback() {
+			transaction.rollback();
+			if (archivePath) rmSync(archivePath, { force: true });
+		},
+		commit() {
+			transaction.commit();
+			gc.trashPath = transaction.trashPath;
+		},
+	};
+	return gc;
+}
@@ -0,0 +1,217 @@
+import { existsSync, readFileSync, realpathSync, renameSync, statSync, writeFileSync } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import { listSessionFileNames } from "./link-sessions-core.ts";
+import { extractMessageText } from "./link-sessions-preview.ts";
+
+export const SESSION_INDEX_FILE_NAME = "link-sessions-index.json";
+
+const SESSION_INDEX_VERSION = 1;
+
+export interface SessionSummary {
+	id: string;
+	name?: string;
+	firstMessage?: string;
+	messageCount: number;
+	cwd: string;
+}
+
+export interface IndexedSession extends SessionSummary {
+	/** Real path of the session file, so a folder reached through a link shares entries with its target. */
+	path: string;
+	mtimeMs: number;
+	size: number;
+}
+
+export interface FolderSummary {
+	sessionCount: number;
+	/** Modification time of the newest session file. */
+	lastModified?: Date;
+	/** Cwd of the newest session that is already indexed. */
+	cwd?: string;
+}
+
+export interface SessionIndex {
+	/** Summaries of a folder's sessions, newest first. Only files whose mtime or size changed are read. */
+	loadFolder(folderPath: string): Promise<IndexedSession[]>;
+	/** Describes a folder from file stats and already indexed sessions, without opening any session file. */
+	summarizeFolder(folderPath: string): FolderSummary;
+	/** Drops entries of folders that no longer exist and writes the index back when anything changed. */
+	save(): void;
+}
+
+/** Reads the fields the folder picker shows out of a session file's contents. */
+export function parseSessionSummary(contents: string): SessionSummary | undefined {
+	const lines = contents.split("\n");
+	let header: { type?: unknown; id?: unknown; cwd?: unknown };
+	try {
+		header = JSON.parse(lines[0] ?? "");
+	} catch {
+		return undefined;
+	}
+	if (header?.type !== "session" || typeof header.id !== "string") return undefined;
+
+	let name: string | undefined;
+	let firstMessage: string | undefined;
+	let messageCount = 0;
+	for (const line of lines.slice(1)) {
+		if (!line) continue;
+		let entry: { type?: unknown; name?: unknown; message?: { role?: unknown } };
+		try {
+			entry = JSON.parse(line);
+		} catch {
+			continue;
+		}
+		if (entry.type === "session_info") {
+			name = typeof entry.name === "string" && entry.name.trim() ? entry.name.trim() : undefined;
+			continue;
+		}
+		if (entry.type !== "message") continue;
+
+		messageCount += 1;
+		if (firstMessage === undefined && entry.message?.role === "user") {
+			firstMessage = extractMessageText(entry.message) || undefined;
+		}
+	}
+
+	return { id: header.id, name, firstMessage, messageCount, cwd: typeof header.cwd === "string" ? header.cwd : "" };
+}
+
+function isIndexedSession(value: unknown): value is IndexedSession {
+	const entry = value as IndexedSession | null;
+	return (
+		typeof entry?.path === "string" &&
+		typeof entry.id === "string" &&
+		typeof entry.cwd === "string" &&
+		typeof entry.messageCount === "number" &&
+		typeof entry.mtimeMs === "number" &&
+		typeof entry.size === "number"
+	);
+}
+
+function readIndexFile(indexPath: string): Map<string, IndexedSession> {
+	const entries = new Map<string, IndexedSession>();
+	try {
+		const data = JSON.parse(readFileSync(indexPath, "utf8"));
+		if (data?.version !== SESSION_INDEX_VERSION || !Array.isArray(data.sessions)) return entries;
+		for (const session of data.sessions) {
+			if (isIndexedSession(session)) entries.set(session.path, session);
+		}
+	} catch {
+		// a missing or unreadable index is rebuilt from the session files
+	}
+	return entries;
+}
+
+function realFolderPath(folderPath: string): string {
+	try {
+		return realpathSync(folderPath);
+	} catch {
+		return resolve(folderPath);
+	}
+}
+
+function isFresh(entry: IndexedSession | undefined, stats: { mtimeMs: number; size: number }): entry is IndexedSession {
+	return entry !== undefined && entry.mtimeMs === stats.mtimeMs && entry.size === stats.size;
+}
+
+/**
+ * Opens the persistent index of session summaries at `indexPath`. The index is a cache: entries are
+ * checked against each file's mtime and size before use, and a missing or corrupt index starts empty.
+ */
+export function createSessionIndex(indexPath: string): SessionIndex {
+	const entries = readIndexFile(indexPath);
+	let dirty = false;
+
+	/** Drops entries for files that were removed from `dir`. */
+	const prune = (dir: string, names: string[]) => {
+		const present = new Set(names);
+		for (const path of entries.keys()) {
+			if (dirname(path) === dir && !present.has(basename(path))) {
+				entries.delete(path);
+				dirty = true;
+			}
+		}
+	};
+
+	return {
+		async loadFolder(folderPath) {
+			const dir = realFolderPath(folderPath);
+			const names = listSessionFileNames(dir);
+			const sessions: IndexedSession[] = [];
+
+			for (const name of names) {
+				const path = join(dir, name);
+				let entry = entries.get(path);
+				try {
+					const stats = await stat(path);
+					if (!isFresh(entry, stats)) {
+						const summary = parseSessionSummary(await readFile(path, "utf8"));
+						if (!summary) continue;
+						entry = { ...summary, path, mtimeMs: stats.mtimeMs, size: stats.size };
+						entries.set(path, entry);
+						dirty = true;
+					}
+				} catch {
+					continue;
+				}
+				sessions.push(entry);
+			}
+
+			prune(dir, names);
+			return sessions.sort((a, b) => b.mtimeMs - a.mtimeMs);
+		},
+
+		summarizeFolder(folderPath) {
+			const dir = realFolderPath(folderPath);
+			const names = listSessionFileNames(dir);
+			let newest: number | undefined;
+			let cwd: { value: string; mtimeMs: number } | undefined;
+
+			for (const name of names) {
+				const path = join(dir, name);
+				let stats: { mtimeMs: number; size: number };
+				try {
+					stats = statSync(path);
+				} catch {
+					continue;
+				}
+				if (newest === undefined || stats.mtimeMs > newest) newest = stats.mtimeMs;
+
+				const entry = entries.get(path);
+				if (isFresh(entry, stats) && entry.cwd && (!cwd || stats.mtimeMs > cwd.mtimeMs)) {
+					cwd = { value: entry.cwd, mtimeMs: stats.mtimeMs };
+				}
+			}
+
+			return {
+				sessionCount: names.length,
+				lastModified: newest === undefined ? undefined : new Date(newest),
+				cwd: cwd?.value,
+			};
+		},
+
+		save() {
+			// Folders that were renamed, deleted or trashed are never loaded again, so loadFolder can't prune them.
+			const existingDirs = new Map<string, boolean>();
+			for (const path of entries.keys()) {
+				const dir = dirname(path);
+				let exists = existingDirs.get(dir);
+				if (exists === undefined) {
+					exists = existsSync(dir);
+					existingDirs.set(dir, exists);
+				}
+				if (!exists) {
+					entries.delete(path);
+					dirty = true;
+				}
+			}
+			if (!dirty) return;
+
+			const tempPath = `${indexPath}.tmp-${process.pid}`;
+			writeFileSync(tempPath, JSON.stringify({ version: SESSION_INDEX_VERSION, sessions: [...entries.values()] }));
+			renameSync(tempPath, indexPath);
+			dirty = false;
+		},
+	};
+}
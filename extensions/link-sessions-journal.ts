@@ -0,0 +1,281 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmdirSync } from "node:fs";
+import * as os from "node:os";
+import { basename, join, resolve } from "node:path";
+import {
+	type LinkTransaction,
+	type PathKind,
+	countSessionFiles,
+	createLinkTransaction,
+	createRestoreTransaction,
+	formatDateTime,
+	getPathKind,
+	isDirectoryLike,
+	isRelativeLink,
+	readSymlinkTarget,
+	shortenPath,
+} from "./link-sessions-core.ts";
+import { createRenameFolderTransaction } from "./link-sessions-manager.ts";
+import { createMirrorTransaction, readMirrorMarker, syncMirror } from "./link-sessions-mirror.ts";
+
+export const JOURNAL_FILE_NAME = ".link-sessions-journal.jsonl";
+
+export type JournalAction =
+	| "link"
+	| "unlink"
+	| "undo"
+	| "recover"
+	| "repair"
+	| "relativize"
+	| "gc"
+	| "delete"
+	| "rename";
+
+export interface PathState {
+	kind: PathKind;
+	/** Symlink target, only set when `kind` is "symlink". */
+	target?: string;
+	/** Whether the symlink stores a relative target. */
+	relative?: boolean;
+	/** Folder a mirrored directory copies, only set when `kind` is "directory". */
+	mirrorOf?: string;
+}
+
+export interface JournalEntry {
+	id: string;
+	timestamp: string;
+	action: JournalAction;
+	currentDir: string;
+	previousKind: PathKind;
+	previousTarget?: string;
+	previousRelative?: boolean;
+	previousMirrorOf?: string;
+	resultKind: PathKind;
+	target?: string;
+	mirrorOf?: string;
+	backupPath?: string;
+	/** Set when the replaced directory held no sessions, so it was removed instead of trashed. */
+	backupEmpty?: boolean;
+	user: string;
+	host: string;
+	/** Id of the entry this one reverted, for "undo" entries. */
+	undoes?: string;
+	/** Where `currentDir` was moved, for renames and their undos. */
+	renamedTo?: string;
+}
+
+export interface JournalChange {
+	action: JournalAction;
+	currentDir: string;
+	previous: PathState;
+	undoes?: string;
+	renamedTo?: string;
+}
+
+export function getJournalPath(sessionsRoot: string): string {
+	return join(sessionsRoot, JOURNAL_FILE_NAME);
+}
+
+export function describePathState(path: string): PathState {
+	const kind = getPathKind(path);
+	if (kind === "symlink") return { kind, target: readSymlinkTarget(path), relative: isRelativeLink(path) };
+	const mirrorOf = readMirrorMarker(path)?.target;
+	return mirrorOf ? { kind, mirrorOf } : { kind };
+}
+
+function currentUser(): string {
+	try {
+		return os.userInfo().username;
+	} catch {
+		return "unknown";
+	}
+}
+
+export function createJournalEntry(change: JournalChange, backupPath?: string): JournalEntry {
+	const currentDir = resolve(change.currentDir);
+	const result = describePathState(currentDir);
+	return {
+		id: `${Date.now().toString(36)}-${process.pid.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+		timestamp: new Date().toISOString(),
+		action: change.action,
+		currentDir,
+		previousKind: change.previous.kind,
+		previousTarget: change.previous.target,
+		previousRelative: change.previous.relative,
+		previousMirrorOf: change.previous.mirrorOf,
+		resultKind: result.kind,
+		target: result.target,
+		mirrorOf: result.mirrorOf,
+		backupPath,
+		user: currentUser(),
+		host: os.hostname(),
+		undoes: change.undoes,
+		renamedTo: change.renamedTo && resolve(change.renamedTo),
+	};
+}
+
+export function appendJournalEntry(journalPath: string, entry: JournalEntry): void {
+	appendFileSync(journalPath, `${JSON.stringify(entry)}\n`);
+}
+
+/** Reads the journal oldest-first, skipping lines that are not valid entries. */
+export function readJournal(journalPath: string): JournalEntry[] {
+	if (!existsSync(journalPath)) return [];
+
+	const entries: JournalEntry[] = [];
+	for (const line of readFileSync(journalPath, "utf8").split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			const entry = JSON.parse(line);
+			if (typeof entry?.id === "string" && typeof entry.currentDir === "string" && typeof entry.action === "string") {
+				entries.push(entry as JournalEntry);
+			}
+		} catch {
+			// ignore
+		}
+	}
+	return entries;
+}
+
+/** Wraps a transaction so that a journal entry is appended once it commits. */
+export function journalTransaction(transaction: LinkTransaction, journalPath: string, change: JournalChange): LinkTransaction {
+	const journaled: LinkTransaction = {
+		...transaction,
+		rollback() {
+			transaction.rollback();
+		},
+		commit() {
+			transaction.commit();
+			journaled.trashPath = transaction.trashPath;
+			try {
+				// Undo restores the replaced folder from wherever it ended up, or recreates it when it was empty.
+				const backupPath = transaction.trashPath ?? transaction.backupPath;
+				const entry = createJournalEntry(change, backupPath);
+				if (change.previous.kind === "directory" && backupPath && getPathKind(backupPath) === "missing") {
+					entry.backupPath = undefined;
+					entry.backupEmpty = true;
+				}
+				appendJournalEntry(journalPath, entry);
+			} catch {
+				// the change itself succeeded; a missing entry only limits history and undo
+			}
+		},
+	};
+	return journaled;
+}
+
+/** Replaces `path` with a new empty directory, for undoing changes to a directory that held no sessions. */
+function createEmptyDirectoryTransaction(path: string): LinkTransaction {
+	const restore = createRestoreTransaction(path);
+	try {
+		mkdirSync(path);
+	} catch (err) {
+		restore.rollback();
+		throw err;
+	}
+
+	const transaction: LinkTransaction = {
+		...restore,
+		rollback() {
+			if (getPathKind(path) === "directory") rmdirSync(path);
+			restore.rollback();
+		},
+		commit() {
+			restore.commit();
+			transaction.trashPath = restore.trashPath;
+		},
+	};
+	return transaction;
+}
+
+/**
+ * Builds a transaction that returns `entry.currentDir` to the state it had before the entry.
+ * Throws when the path changed since the entry or the earlier state can no longer be restored.
+ */
+export function createUndoTransaction(entry: JournalEntry): LinkTransaction {
+	const now = describePathState(entry.currentDir);
+	if (
+		now.kind !== entry.resultKind ||
+		(now.kind === "symlink" && now.target !== entry.target) ||
+		now.mirrorOf !== entry.mirrorOf
+	) {
+		throw new Error(`${basename(entry.currentDir)} has changed since this entry was recorded`);
+	}
+
+	if (entry.renamedTo) {
+		const renamed = describePathState(entry.renamedTo);
+		if (renamed.kind !== entry.previousKind || renamed.target !== entry.previousTarget) {
+			throw new Error(`${basename(entry.renamedTo)} has changed since this entry was recorded`);
+		}
+		return createRenameFolderTransaction(entry.renamedTo, basename(entry.currentDir));
+	}
+
+	if (now.mirrorOf) {
+		// Push what the mirror has that its target lacks, so nothing is lost when the copies are dropped.
+		const sync = syncMirror(entry.currentDir);
+		if (sync.diverged.length > 0) {
+			throw new Error(`${sync.diverged.length} mirrored session(s) diverged from the target; resolve them first`);
+		}
+	}
+
+	switch (entry.previousKind) {
+		case "missing":
+			if (now.kind === "directory" && !now.mirrorOf && countSessionFiles(entry.currentDir) > 0) {
+				throw new Error(`${basename(entry.currentDir)} now contains sessions; refusing to remove it`);
+			}
+			return createRestoreTransaction(entry.currentDir);
+		case "symlink":
+			if (!entry.previousTarget || !isDirectoryLike(entry.previousTarget)) {
+				throw new Error(`The previous link target no longer exists: ${entry.previousTarget ?? "(unknown)"}`);
+			}
+			// Sessions created in a real directory since the entry are merged back rather than discarded.
+			return createLinkTransaction(entry.currentDir, entry.previousTarget, {
+				merge: now.kind === "directory" && !now.mirrorOf,
+				relative: entry.previousRelative ?? false,
+			});
+		case "directory":
+			if (entry.previousMirrorOf) {
+				if (!isDirectoryLike(entry.previousMirrorOf)) {
+					throw new Error(`The previously mirrored folder no longer exists: ${entry.previousMirrorOf}`);
+				}
+				return createMirrorTransaction(entry.currentDir, entry.previousMirrorOf, {
+					merge: now.kind === "directory" && !now.mirrorOf,
+				});
+			}
+			if (entry.backupEmpty) return createEmptyDirectoryTransaction(entry.currentDir);
+			if (!entry.backupPath || getPathKind(entry.backupPath) !== "directory") {
+				throw new Error("The replaced directory is no longer in the trash");
+			}
+			return createRestoreTransaction(entry.currentDir, entry.backupPath);
+		default:
+			throw new Error(`Cannot restore a path of kind "${entry.previousKind}"`);
+	}
+}
+
+/** Describes what undoing `entry` changes, for journaling the undo so that it can be undone in turn. */
+export function describeUndoChange(entry: JournalEntry): JournalChange {
+	// Undoing a rename renames the folder back, so it is recorded from the folder's new path.
+	if (entry.renamedTo) {
+		return {
+			action: "undo",
+			currentDir: entry.renamedTo,
+			previous: describePathState(entry.renamedTo),
+			undoes: entry.id,
+			renamedTo: entry.currentDir,
+		};
+	}
+	return { action: "undo", currentDir: entry.currentDir, previous: describePathState(entry.currentDir), undoes: entry.id };
+}
+
+function describeState(kind: PathKind, target: string | undefined, mirrorOf: string | undefined): string {
+	if (kind === "symlink") return `→ ${target ? shortenPath(target) : "(unknown)"}`;
+	if (mirrorOf) return `(mirror of ${shortenPath(mirrorOf)})`;
+	return `(${kind})`;
+}
+
+export function formatJournalEntry(entry: JournalEntry, index: number): string {
+	const when = formatDateTime(new Date(entry.timestamp));
+	const change = entry.renamedTo
+		? `⇒ ${basename(entry.renamedTo)}`
+		: `${describeState(entry.previousKind, entry.previousTarget, entry.previousMirrorOf)} ⇒ ${describeState(entry.resultKind, entry.target, entry.mirrorOf)}`;
+	return `${index + 1}. ${when} ${entry.action} ${basename(entry.currentDir)} ${change} by ${entry.user}@${entry.host}`;
+}
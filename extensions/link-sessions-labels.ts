@@ -0,0 +1,132 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { FolderChoice } from "./link-sessions-core.ts";
+
+/** Kept in the sessions root, next to the folders it describes, so it syncs with them. */
+export const FOLDER_LABELS_FILE_NAME = ".link-sessions-labels.json";
+
+export interface FolderLabel {
+	/** Human name shown instead of the encoded folder name. */
+	label?: string;
+	tags: string[];
+	note?: string;
+}
+
+/** Labels keyed by folder name. */
+export type FolderLabels = Map<string, FolderLabel>;
+
+export function getFolderLabelsPath(sessionsRoot: string): string {
+	return join(sessionsRoot, FOLDER_LABELS_FILE_NAME);
+}
+
+function normalizeFolderLabel(raw: unknown): FolderLabel | undefined {
+	if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return undefined;
+	const record = raw as Record<string, unknown>;
+	const label: FolderLabel = {
+		label: typeof record.label === "string" && record.label.trim() !== "" ? record.label.trim() : undefined,
+		tags: parseTags(Array.isArray(record.tags) ? record.tags.filter((tag) => typeof tag === "string").join(" ") : ""),
+		note: typeof record.note === "string" && record.note.trim() !== "" ? record.note.trim() : undefined,
+	};
+	return isEmptyFolderLabel(label) ? undefined : label;
+}
+
+export function isEmptyFolderLabel(label: FolderLabel): boolean {
+	return !label.label && label.tags.length === 0 && !label.note;
+}
+
+/** Splits tags on commas and whitespace, drops a leading `#` and duplicates. */
+export function parseTags(text: string): string[] {
+	const tags = text
+		.split(/[\s,]+/)
+		.map((tag) => tag.replace(/^#+/, ""))
+		.filter(Boolean);
+	return [...new Set(tags)];
+}
+
+/** Reads the labels of a sessions root. A missing or unreadable file means no labels. */
+export function readFolderLabels(sessionsRoot: string): FolderLabels {
+	const labels: FolderLabels = new Map();
+	const labelsPath = getFolderLabelsPath(sessionsRoot);
+	if (!existsSync(labelsPath)) return labels;
+
+	let raw: unknown;
+	try {
+		raw = JSON.parse(readFileSync(labelsPath, "utf8"));
+	} catch {
+		return labels;
+	}
+	const folders = (raw as { folders?: unknown } | null)?.folders;
+	if (typeof folders !== "object" || folders === null) return labels;
+
+	for (const [name, value] of Object.entries(folders)) {
+		const label = normalizeFolderLabel(value);
+		if (label) labels.set(name, label);
+	}
+	return labels;
+}
+
+function writeFolderLabels(sessionsRoot: string, labels: FolderLabels): void {
+	const labelsPath = getFolderLabelsPath(sessionsRoot);
+	const folders = Object.fromEntries([...labels.entries()].sort(([a], [b]) => a.localeCompare(b)));
+	const tempPath = `${labelsPath}.tmp-${process.pid}`;
+	writeFileSync(tempPath, `${JSON.stringify({ folders }, null, "\t")}\n`);
+	renameSync(tempPath, labelsPath);
+}
+
+/**
+ * Sets or, when empty, removes the label of one folder. The file is read again right before writing,
+ * so edits made meanwhile by another machine or pi process to other folders are kept.
+ */
+export function saveFolderLabel(sessionsRoot: string, folderName: string, label: FolderLabel): FolderLabels {
+	const labels = readFolderLabels(sessionsRoot);
+	const normalized = normalizeFolderLabel(label);
+	if (normalized) {
+		labels.set(folderName, normalized);
+	} else {
+		labels.delete(folderName);
+	}
+	writeFolderLabels(sessionsRoot, labels);
+	return labels;
+}
+
+/** Looks up the label of each folder choice in the labels file of the root holding it. Keyed by folder path. */
+export function loadFolderChoiceLabels(choices: FolderChoice[]): Map<string, FolderLabel> {
+	const byRoot = new Map<string, FolderLabels>();
+	const labels = new Map<string, FolderLabel>();
+	for (const choice of choices) {
+		const root = dirname(choice.path);
+		let rootLabels = byRoot.get(root);
+		if (!rootLabels) {
+			rootLabels = readFolderLabels(root);
+			byRoot.set(root, rootLabels);
+		}
+		const label = rootLabels.get(choice.name);
+		if (label) labels.set(choice.path, label);
+	}
+	return labels;
+}
+
+/** Keeps folders whose name, root, cwd, label, tags or note contain every word of `filter`, ignoring case. */
+export function filterFolderChoices(
+	choices: FolderChoice[],
+	labels: Map<string, FolderLabel>,
+	filter: string,
+): FolderChoice[] {
+	const words = filter.toLowerCase().split(/\s+/).filter(Boolean);
+	if (words.length === 0) return choices;
+
+	return choices.filter((choice) => {
+		const label = labels.get(choice.path);
+		const text = [
+			choice.name,
+			choice.root ?? "",
+			choice.cwd ?? "",
+			label?.label ?? "",
+			...(label?.tags.map((tag) => `#${tag}`) ?? []),
+			label?.note ?? "",
+		]
+			.join(" ")
+			.toLowerCase();
+		return words.every((word) => text.includes(word));
+	});
+}
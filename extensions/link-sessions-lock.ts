@@ -0,0 +1,225 @@
+import { linkSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "node:fs";
+import * as os from "node:os";
+import { join, resolve } from "node:path";
+import { formatDateTime } from "./link-sessions-core.ts";
+
+export const LOCK_FILE_NAME = ".link-sessions.lock";
+
+const PRESENCE_FILE_PREFIX = ".link-sessions-presence-";
+
+/** Processes on other hosts can't be checked, so their locks and presence go stale after this long. */
+export const REMOTE_STALE_MS = 30 * 60_000;
+
+/** A lock file without a readable owner is only treated as stale after this long, in case it is still being written. */
+const UNREADABLE_LOCK_STALE_MS = 10_000;
+
+export interface ProcessInfo {
+	pid: number;
+	host: string;
+	user: string;
+}
+
+export interface LockOwner extends ProcessInfo {
+	acquiredAt: string;
+	/** What the owner is doing, e.g. "link" or "undo". */
+	purpose: string;
+}
+
+export interface SessionsLock {
+	path: string;
+	owner: LockOwner;
+	/** Removes the lock file if it is still ours. Safe to call more than once. */
+	release(): void;
+}
+
+/** Another pi process's open session, as announced in its presence file. */
+export interface SessionPresence extends ProcessInfo {
+	sessionDir: string;
+	sessionFile?: string;
+	updatedAt: string;
+}
+
+function currentProcess(): ProcessInfo {
+	let user = "unknown";
+	try {
+		user = os.userInfo().username;
+	} catch {
+		// ignore
+	}
+	return { pid: process.pid, host: os.hostname(), user };
+}
+
+export function getLockPath(sessionsRoot: string): string {
+	return join(sessionsRoot, LOCK_FILE_NAME);
+}
+
+function getPresencePath(sessionsRoot: string, info: ProcessInfo): string {
+	return join(sessionsRoot, `${PRESENCE_FILE_PREFIX}${info.host}-${info.pid}.json`);
+}
+
+export function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (err) {
+		// EPERM: the process exists but belongs to someone else.
+		return (err as NodeJS.ErrnoException).code === "EPERM";
+	}
+}
+
+function isOwnerAlive(owner: ProcessInfo & { timestamp: string }, now: number): boolean {
+	if (owner.host === os.hostname()) return isProcessAlive(owner.pid);
+	return now - Date.parse(owner.timestamp) < REMOTE_STALE_MS;
+}
+
+function readLockText(lockPath: string): string | undefined {
+	try {
+		return readFileSync(lockPath, "utf8");
+	} catch {
+		return undefined;
+	}
+}
+
+export function readLockOwner(lockPath: string): LockOwner | undefined {
+	try {
+		const owner = JSON.parse(readFileSync(lockPath, "utf8"));
+		if (typeof owner?.pid !== "number" || typeof owner.host !== "string") return undefined;
+		return {
+			pid: owner.pid,
+			host: owner.host,
+			user: typeof owner.user === "string" ? owner.user : "unknown",
+			acquiredAt: typeof owner.acquiredAt === "string" ? owner.acquiredAt : "",
+			purpose: typeof owner.purpose === "string" ? owner.purpose : "",
+		};
+	} catch {
+		return undefined;
+	}
+}
+
+/** A lock is stale when its process is gone, or, for another host, when it is older than `REMOTE_STALE_MS`. */
+export function isLockStale(lockPath: string, now = Date.now()): boolean {
+	const owner = readLockOwner(lockPath);
+	if (owner) return !isOwnerAlive({ ...owner, timestamp: owner.acquiredAt }, now);
+
+	try {
+		return now - statSync(lockPath).mtimeMs > UNREADABLE_LOCK_STALE_MS;
+	} catch {
+		return true;
+	}
+}
+
+export function describeLockOwner(owner: LockOwner): string {
+	const since = owner.acquiredAt ? ` since ${formatDateTime(new Date(owner.acquiredAt))}` : "";
+	return `pi (pid ${owner.pid} on ${owner.host}, ${owner.user})${owner.purpose ? ` running ${owner.purpose}` : ""}${since}`;
+}
+
+/**
+ * Takes the advisory lock on a sessions root. Stale locks are replaced; a live one makes this throw,
+ * so only one pi process links, unlinks or undoes in a sessions root at a time.
+ */
+export function acquireSessionsLock(sessionsRoot: string, purpose: string): SessionsLock {
+	const lockPath = getLockPath(sessionsRoot);
+	const owner: LockOwner = { ...currentProcess(), acquiredAt: new Date().toISOString(), purpose };
+	const busy = (holder: LockOwner | undefined) =>
+		new Error(
+			`${holder ? describeLockOwner(holder) : "Another pi process"} is already changing session folders in ${sessionsRoot}. Try again when it is done.`,
+		);
+
+	for (let attempt = 0; attempt < 3; attempt += 1) {
+		try {
+			writeFileSync(lockPath, `${JSON.stringify(owner)}\n`, { flag: "wx" });
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+
+			const staleText = readLockText(lockPath);
+			if (!isLockStale(lockPath)) throw busy(readLockOwner(lockPath));
+
+			// Another process may take over the same stale lock first. Moving it aside and checking what was moved,
+			// instead of deleting it, never removes the lock that process has just written.
+			const tombstonePath = `${lockPath}.stale-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+			try {
+				renameSync(lockPath, tombstonePath);
+			} catch (renameErr) {
+				if ((renameErr as NodeJS.ErrnoException).code === "ENOENT") continue;
+				throw renameErr;
+			}
+			if (readLockText(tombstonePath) !== staleText) {
+				const holder = readLockOwner(tombstonePath);
+				try {
+					linkSync(tombstonePath, lockPath);
+				} catch {
+					// yet another process holds the lock now
+				}
+				rmSync(tombstonePath, { force: true });
+				throw busy(holder);
+			}
+			rmSync(tombstonePath, { force: true });
+			continue;
+		}
+
+		let released = false;
+		return {
+			path: lockPath,
+			owner,
+			release() {
+				if (released) return;
+				released = true;
+
+				const current = readLockOwner(lockPath);
+				if (current?.pid === owner.pid && current.host === owner.host && current.acquiredAt === owner.acquiredAt) {
+					rmSync(lockPath, { force: true });
+				}
+			},
+		};
+	}
+
+	throw new Error(`Could not lock ${sessionsRoot}; another pi process keeps taking the lock`);
+}
+
+/** Announces that this process has a session open in `sessionDir`, replacing its previous announcement. */
+export function recordSessionPresence(sessionsRoot: string, sessionDir: string, sessionFile?: string): void {
+	const info = currentProcess();
+	const presence: SessionPresence = { ...info, sessionDir: resolve(sessionDir), sessionFile, updatedAt: new Date().toISOString() };
+	const presencePath = getPresencePath(sessionsRoot, info);
+	const tempPath = `${presencePath}.tmp`;
+	writeFileSync(tempPath, `${JSON.stringify(presence)}\n`);
+	renameSync(tempPath, presencePath);
+}
+
+export function clearSessionPresence(sessionsRoot: string): void {
+	rmSync(getPresencePath(sessionsRoot, currentProcess()), { force: true });
+}
+
+/** Lists other live pi processes that announced an open session in `sessionDir`. */
+export function findOtherSessionsInFolder(sessionsRoot: string, sessionDir: string, now = Date.now()): SessionPresence[] {
+	let names: string[];
+	try {
+		names = readdirSync(sessionsRoot);
+	} catch {
+		return [];
+	}
+
+	const self = currentProcess();
+	const resolvedDir = resolve(sessionDir);
+	const others: SessionPresence[] = [];
+	for (const name of names) {
+		if (!name.startsWith(PRESENCE_FILE_PREFIX) || !name.endsWith(".json")) continue;
+
+		let presence: SessionPresence;
+		try {
+			presence = JSON.parse(readFileSync(join(sessionsRoot, name), "utf8"));
+		} catch {
+			continue;
+		}
+		if (typeof presence?.pid !== "number" || typeof presence.host !== "string" || presence.sessionDir !== resolvedDir) continue;
+		if (presence.pid === self.pid && presence.host === self.host) continue;
+		if (!isOwnerAlive({ ...presence, timestamp: presence.updatedAt }, now)) continue;
+		others.push(presence);
+	}
+	return others;
+}
+
+export function describeOtherSessions(others: SessionPresence[]): string {
+	const list = others.map((other) => `pid ${other.pid} on ${other.host}`).join(", ");
+	return `${others.length === 1 ? "Another pi process" : `${others.length} other pi processes`} (${list}) ${others.length === 1 ? "has" : "have"} a session open in this folder. What ${others.length === 1 ? "it writes" : "they write"} while the folder is moved can be lost.`;
+}
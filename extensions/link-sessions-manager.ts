@@ -0,0 +1,186 @@
+import { copyFileSync, mkdirSync, readdirSync, renameSync, rmSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import {
+	type FolderChoice,
+	type LinkTransaction,
+	TRASH_DIR_NAME,
+	createRestoreTransaction,
+	getPathKind,
+	isBackupFolderName,
+	listSessionFileNames,
+	pathExists,
+	readSessionHeader,
+	resolveLinkTarget,
+} from "./link-sessions-core.ts";
+import { copyWithNewId } from "./link-sessions-adopt.ts";
+import { readFolderLabels, saveFolderLabel } from "./link-sessions-labels.ts";
+import { readMirrorMarker } from "./link-sessions-mirror.ts";
+
+export const FOLDER_PICKER_SORTS = ["recent", "name", "sessions"] as const;
+
+export type FolderPickerSort = (typeof FOLDER_PICKER_SORTS)[number];
+
+/** What the folder picker can do with the highlighted folder besides linking to it. */
+export type FolderManagerAction = "open" | "unlink" | "rename" | "duplicate" | "delete";
+
+/**
+ * Sorts folder choices without mixing up their roots: the current root's folders stay first, followed by each
+ * extra root's. "recent" keeps the order they were listed in, which pins suggested folders and puts the newest first.
+ */
+export function sortFolderChoices(choices: FolderChoice[], sort: FolderPickerSort): FolderChoice[] {
+	if (sort === "recent") return choices;
+
+	const rootOrder = new Map<string | undefined, number>();
+	for (const choice of choices) {
+		if (!rootOrder.has(choice.root)) rootOrder.set(choice.root, rootOrder.size);
+	}
+	const byName = (a: FolderChoice, b: FolderChoice) => a.name.localeCompare(b.name);
+	return [...choices].sort(
+		(a, b) =>
+			rootOrder.get(a.root)! - rootOrder.get(b.root)! ||
+			(sort === "sessions" ? b.sessionCount - a.sessionCount || byName(a, b) : byName(a, b)),
+	);
+}
+
+/**
+ * The actions that apply to a folder. Folders in extra roots are only linked to or opened, never changed,
+ * and the current folder can't be renamed or deleted while this session writes to it.
+ */
+export function getFolderActions(choice: FolderChoice): FolderManagerAction[] {
+	const actions: FolderManagerAction[] = [];
+	if (choice.sessionCount > 0 && !choice.isCurrent) actions.push("open");
+	if (choice.root) return actions;
+
+	if (getPathKind(choice.path) === "symlink" || readMirrorMarker(choice.path)) actions.push("unlink");
+	if (!choice.isCurrent) actions.push("rename");
+	if (choice.sessionCount > 0) actions.push("duplicate");
+	if (!choice.isCurrent) actions.push("delete");
+	return actions;
+}
+
+/** Names of the other folders in the same root that link to or mirror `folderPath`. */
+export function findInboundLinks(folderPath: string): string[] {
+	const sessionsRoot = dirname(folderPath);
+	const realPath = resolveLinkTarget(folderPath) ?? resolve(folderPath);
+	let names: string[];
+	try {
+		names = readdirSync(sessionsRoot);
+	} catch {
+		return [];
+	}
+
+	return names.filter((name) => {
+		const path = join(sessionsRoot, name);
+		if (path === resolve(folderPath) || isBackupFolderName(name) || name === TRASH_DIR_NAME) return false;
+		const kind = getPathKind(path);
+		if (kind === "symlink") return resolveLinkTarget(path) === realPath;
+		const mirrorOf = kind === "directory" ? readMirrorMarker(path)?.target : undefined;
+		return mirrorOf !== undefined && (resolveLinkTarget(mirrorOf) ?? mirrorOf) === realPath;
+	});
+}
+
+/** Throws when `name` can't be used as a session folder name. */
+export function validateFolderName(name: string): void {
+	if (name.trim() === "" || name !== name.trim()) throw new Error("Folder names can't be empty or start or end with spaces.");
+	if (name === "." || name === ".." || /[/\\]/.test(name)) throw new Error(`Not a valid folder name: ${name}`);
+	if (isBackupFolderName(name) || name.startsWith(".link-sessions")) {
+		throw new Error(`${name} is reserved for link backups and the extension's own files.`);
+	}
+}
+
+/** Moves the label of a folder along with it. Labels are a convenience, so failing to move one is not an error. */
+function copyFolderLabel(sessionsRoot: string, from: string, to: string, removeOld: boolean): void {
+	try {
+		const label = readFolderLabels(sessionsRoot).get(from);
+		if (!label) return;
+		saveFolderLabel(sessionsRoot, to, removeOld ? label : { ...label, label: label.label && `${label.label} (copy)` });
+		if (removeOld) saveFolderLabel(sessionsRoot, from, { tags: [] });
+	} catch {
+		// keep the folder change
+	}
+}
+
+/**
+ * Renames a folder within its sessions root; rollback renames it back. The label moves along on commit.
+ * Folders that others link to or mirror are refused, because their links would dangle.
+ */
+export function createRenameFolderTransaction(folderPath: string, newName: string): LinkTransaction {
+	validateFolderName(newName);
+	const resolvedPath = resolve(folderPath);
+	const sessionsRoot = dirname(resolvedPath);
+	const newPath = join(sessionsRoot, newName);
+	if (newPath === resolvedPath) throw new Error(`${newName} is already the folder's name.`);
+	if (pathExists(newPath)) throw new Error(`${newName} already exists.`);
+
+	const inbound = findInboundLinks(resolvedPath);
+	if (inbound.length > 0) {
+		throw new Error(`${basename(resolvedPath)} can't be renamed while ${inbound.join(", ")} link to it.`);
+	}
+
+	renameSync(resolvedPath, newPath);
+
+	let closed = false;
+
+	return {
+		rollback() {
+			if (closed) return;
+			closed = true;
+
+			renameSync(newPath, resolvedPath);
+		},
+		commit() {
+			if (closed) return;
+			closed = true;
+
+			copyFolderLabel(sessionsRoot, basename(resolvedPath), newName, true);
+		},
+	};
+}
+
+/**
+ * Copies the sessions seen through a folder, or through the folder a link points to, into a new real
+ * folder `<name>-copy` next to it. The copies get new session ids, like forks, so both folders can be
+ * resumed and synced side by side. Returns the new path.
+ */
+export function duplicateSessionFolder(folderPath: string): string {
+	const resolvedPath = resolve(folderPath);
+	const sessionsRoot = dirname(resolvedPath);
+	const name = basename(resolvedPath);
+	const sessionNames = listSessionFileNames(resolvedPath);
+	if (sessionNames.length === 0) throw new Error(`${name} has no sessions to duplicate.`);
+
+	let newPath = join(sessionsRoot, `${name}-copy`);
+	for (let index = 2; pathExists(newPath); index++) {
+		newPath = join(sessionsRoot, `${name}-copy-${index}`);
+	}
+
+	mkdirSync(newPath);
+	try {
+		for (const sessionName of sessionNames) {
+			const source = join(resolvedPath, sessionName);
+			// Files without a session header have no id to change.
+			if (readSessionHeader(source)) {
+				copyWithNewId(source, newPath);
+			} else {
+				copyFileSync(source, join(newPath, sessionName));
+			}
+		}
+	} catch (err) {
+		rmSync(newPath, { recursive: true, force: true });
+		throw err;
+	}
+	copyFolderLabel(sessionsRoot, name, basename(newPath), false);
+	return newPath;
+}
+
+/**
+ * Removes a folder from its sessions root. A real folder goes to the trash on commit and a link is removed,
+ * leaving its target alone; either way the history can undo it. Folders that others link to or mirror are refused.
+ */
+export function createDeleteFolderTransaction(folderPath: string): LinkTransaction {
+	const inbound = findInboundLinks(folderPath);
+	if (inbound.length > 0) {
+		throw new Error(`${basename(folderPath)} can't be deleted while ${inbound.join(", ")} link to it.`);
+	}
+	return createRestoreTransaction(folderPath);
+}
@@ -0,0 +1,272 @@
+import {
+	closeSync,
+	copyFileSync,
+	mkdirSync,
+	openSync,
+	readFileSync,
+	readSync,
+	renameSync,
+	rmSync,
+	statSync,
+	unlinkSync,
+	utimesSync,
+} from "node:fs";
+import { basename, join, resolve } from "node:path";
+import {
+	type LinkOptions,
+	type LinkTransaction,
+	type MirrorMarker,
+	type UnlinkMode,
+	disposeBackup,
+	executeLinkPlan,
+	getMirrorMarkerPath,
+	getPathKind,
+	isDirectoryLike,
+	listSessionFileNames,
+	makeUniqueBackupPath,
+	makeUniqueMergePath,
+	planLink,
+	readSessionHeader,
+	safeRemovePath,
+	writeMirrorMarker,
+} from "./link-sessions-core.ts";
+
+export interface MirrorDivergence {
+	/** Session id, or the file name for files without a session header. */
+	key: string;
+	localPath: string;
+	targetPath: string;
+}
+
+export interface MirrorSyncResult {
+	/** Sessions copied from the mirror into the target. */
+	pushed: string[];
+	/** Sessions copied from the target into the mirror. */
+	pulled: string[];
+	/** Sessions that grew on one side and were brought up to date on the other. */
+	updated: string[];
+	/** Sessions changed on both sides; they are left alone. */
+	diverged: MirrorDivergence[];
+}
+
+export function readMirrorMarker(dirPath: string): MirrorMarker | undefined {
+	if (getPathKind(dirPath) !== "directory") return undefined;
+
+	try {
+		const marker = JSON.parse(readFileSync(getMirrorMarkerPath(dirPath), "utf8"));
+		if (typeof marker?.target !== "string" || marker.target === "") return undefined;
+		return { target: marker.target, createdAt: typeof marker.createdAt === "string" ? marker.createdAt : "" };
+	} catch {
+		return undefined;
+	}
+}
+
+/** Copies through a temp file so a reader never sees a half-written session, keeping the source's mtime. */
+function copyFileAtomic(source: string, destination: string): void {
+	const tempPath = `${destination}.tmp-${process.pid}`;
+	try {
+		copyFileSync(source, tempPath);
+		const { atime, mtime } = statSync(source);
+		utimesSync(tempPath, atime, mtime);
+		renameSync(tempPath, destination);
+	} catch (err) {
+		rmSync(tempPath, { force: true });
+		throw err;
+	}
+}
+
+/** Indexes session files by session id, falling back to the file name for files without a header. */
+function indexSessionFiles(dirPath: string): Map<string, string> {
+	const files = new Map<string, string>();
+	for (const name of listSessionFileNames(dirPath)) {
+		const path = join(dirPath, name);
+		const key = readSessionHeader(path)?.id ?? name;
+		if (!files.has(key)) files.set(key, path);
+	}
+	return files;
+}
+
+function readFilePrefix(filePath: string, length: number): Buffer {
+	const buffer = Buffer.alloc(length);
+	const fd = openSync(filePath, "r");
+	try {
+		let offset = 0;
+		while (offset < length) {
+			const bytesRead = readSync(fd, buffer, offset, length - offset, offset);
+			if (bytesRead === 0) break;
+			offset += bytesRead;
+		}
+		return buffer.subarray(0, offset);
+	} finally {
+		closeSync(fd);
+	}
+}
+
+/**
+ * Session files are append-only, so a file that extends another is a newer copy of it. Copies keep their
+ * source's mtime, so files with the same size and mtime are "unchanged" without reading them, and only the
+ * shorter file and the same number of bytes of the longer one are read otherwise.
+ */
+function compareAppendOnly(a: string, b: string): "unchanged" | "same" | "a-longer" | "b-longer" | "diverged" {
+	const aStats = statSync(a);
+	const bStats = statSync(b);
+	if (aStats.size === bStats.size) {
+		// Copied mtimes can lose sub-millisecond precision.
+		if (Math.abs(aStats.mtimeMs - bStats.mtimeMs) < 1) return "unchanged";
+		return readFileSync(a).equals(readFileSync(b)) ? "same" : "diverged";
+	}
+
+	const aLonger = aStats.size > bStats.size;
+	const shorter = readFileSync(aLonger ? b : a);
+	if (!readFilePrefix(aLonger ? a : b, shorter.length).equals(shorter)) return "diverged";
+	return aLonger ? "a-longer" : "b-longer";
+}
+
+/**
+ * Brings a mirrored folder and its target up to date with each other, matching sessions by id.
+ * With `dryRun`, only reports what would be copied. `activeSessionFile`, the session this process appends to,
+ * is never replaced; a newer copy of it in the target is reported as diverged.
+ */
+export function syncMirror(
+	dirPath: string,
+	options: { dryRun?: boolean; activeSessionFile?: string } = {},
+): MirrorSyncResult {
+	const marker = readMirrorMarker(dirPath);
+	if (!marker) throw new Error(`${basename(dirPath)} is not a mirrored folder`);
+	if (!isDirectoryLike(marker.target)) throw new Error(`Mirror target is missing: ${marker.target}`);
+
+	const activeSessionFile = options.activeSessionFile ? resolve(options.activeSessionFile) : undefined;
+	const local = indexSessionFiles(dirPath);
+	const remote = indexSessionFiles(marker.target);
+	const result: MirrorSyncResult = { pushed: [], pulled: [], updated: [], diverged: [] };
+	const copy = (source: string, destination: string) => {
+		if (!options.dryRun) copyFileAtomic(source, destination);
+	};
+
+	for (const [key, localPath] of local) {
+		const targetPath = remote.get(key);
+		if (!targetPath) {
+			copy(localPath, makeUniqueMergePath(marker.target, basename(localPath)));
+			result.pushed.push(key);
+			continue;
+		}
+
+		switch (compareAppendOnly(localPath, targetPath)) {
+			case "unchanged":
+				break;
+			case "same":
+				// Equal copies with different mtimes are read in full; matching the mtimes lets the next sync skip them.
+				if (!options.dryRun) {
+					const { atime, mtime } = statSync(targetPath);
+					utimesSync(localPath, atime, mtime);
+				}
+				break;
+			case "a-longer":
+				copy(localPath, targetPath);
+				result.updated.push(key);
+				break;
+			case "b-longer":
+				if (resolve(localPath) === activeSessionFile) {
+					result.diverged.push({ key, localPath, targetPath });
+					break;
+				}
+				copy(targetPath, localPath);
+				result.updated.push(key);
+				break;
+			case "diverged":
+				result.diverged.push({ key, localPath, targetPath });
+				break;
+		}
+	}
+
+	for (const [key, targetPath] of remote) {
+		if (local.has(key)) continue;
+		copy(targetPath, makeUniqueMergePath(dirPath, basename(targetPath)));
+		result.pulled.push(key);
+	}
+
+	return result;
+}
+
+export function formatMirrorSyncResult(result: MirrorSyncResult): string {
+	const parts = [
+		result.pushed.length > 0 ? `${result.pushed.length} pushed` : "",
+		result.pulled.length > 0 ? `${result.pulled.length} pulled` : "",
+		result.updated.length > 0 ? `${result.updated.length} updated` : "",
+		result.diverged.length > 0 ? `${result.diverged.length} diverged` : "",
+	].filter(Boolean);
+	return parts.length > 0 ? parts.join(", ") : "up to date";
+}
+
+/**
+ * Like `createLinkTransaction`, but the current folder stays a real directory holding copies of the
+ * target's sessions, with a marker recording the target. For filesystems that don't allow or sync symlinks.
+ */
+export function createMirrorTransaction(
+	currentSessionDir: string,
+	targetPath: string,
+	options: Pick<LinkOptions, "merge"> = {},
+): LinkTransaction {
+	return executeLinkPlan(planLink(currentSessionDir, targetPath, { merge: options.merge, mirror: true }));
+}
+
+/**
+ * Stops mirroring. "copy" keeps the local copies and only drops the marker; "empty" first pushes
+ * local changes to the target so nothing is lost, then starts over with an empty folder. Moving is not
+ * supported: it would delete the target's sessions, which other machines may still be using.
+ */
+export function createMirrorUnlinkTransaction(currentSessionDir: string, mode: UnlinkMode): LinkTransaction {
+	const resolvedCurrentDir = resolve(currentSessionDir);
+	const marker = readMirrorMarker(resolvedCurrentDir);
+	if (!marker) throw new Error(`Current session path is not a mirrored folder: ${resolvedCurrentDir}`);
+	if (mode === "move") throw new Error("Mirrored folders can only be unlinked to an empty folder or by keeping the copies");
+
+	let closed = false;
+
+	if (mode === "copy") {
+		unlinkSync(getMirrorMarkerPath(resolvedCurrentDir));
+		return {
+			rollback() {
+				if (closed) return;
+				closed = true;
+
+				writeMirrorMarker(resolvedCurrentDir, marker);
+			},
+			commit() {
+				closed = true;
+			},
+		};
+	}
+
+	const sync = syncMirror(resolvedCurrentDir);
+	if (sync.diverged.length > 0) {
+		throw new Error(`${sync.diverged.length} mirrored session(s) diverged from the target; resolve them before unlinking`);
+	}
+
+	const backupPath = makeUniqueBackupPath(resolvedCurrentDir);
+	renameSync(resolvedCurrentDir, backupPath);
+	try {
+		mkdirSync(resolvedCurrentDir);
+	} catch (err) {
+		renameSync(backupPath, resolvedCurrentDir);
+		throw err;
+	}
+
+	const transaction: LinkTransaction = {
+		backupPath,
+		rollback() {
+			if (closed) return;
+			closed = true;
+
+			safeRemovePath(resolvedCurrentDir);
+			renameSync(backupPath, resolvedCurrentDir);
+		},
+		commit() {
+			if (closed) return;
+			closed = true;
+
+			transaction.trashPath = disposeBackup(backupPath, resolvedCurrentDir);
+		},
+	};
+	return transaction;
+}
@@ -0,0 +1,102 @@
+import { readFile, stat } from "node:fs/promises";
+
+export type TranscriptRole = "user" | "assistant";
+
+export interface TranscriptTurn {
+	role: TranscriptRole;
+	text: string;
+}
+
+export interface SessionDetails {
+	cwd: string;
+	/** Model of the latest model change or assistant reply. */
+	model?: string;
+	size: number;
+	/** The last user/assistant turns, oldest first. */
+	turns: TranscriptTurn[];
+}
+
+export const DEFAULT_PREVIEW_TURNS = 6;
+
+/** Joins the text blocks of a user or assistant message; returns "" for other roles. */
+export function extractMessageText(message: unknown): string {
+	if (typeof message !== "object" || message === null) return "";
+	const { role, content } = message as { role?: unknown; content?: unknown };
+	if (role !== "user" && role !== "assistant") return "";
+	if (typeof content === "string") return content;
+	if (!Array.isArray(content)) return "";
+	return content
+		.filter((block) => block?.type === "text" && typeof block.text === "string")
+		.map((block) => block.text as string)
+		.join(" ");
+}
+
+export function parseSessionDetails(contents: string, size: number, maxTurns = DEFAULT_PREVIEW_TURNS): SessionDetails {
+	const lines = contents.split("\n");
+	let cwd = "";
+	try {
+		const header = JSON.parse(lines[0] ?? "");
+		if (typeof header?.cwd === "string") cwd = header.cwd;
+	} catch {
+		// leave cwd empty
+	}
+
+	let model: string | undefined;
+	const turns: TranscriptTurn[] = [];
+	for (const line of lines.slice(1)) {
+		if (!line) continue;
+		let entry: { type?: unknown; modelId?: unknown; message?: { role?: unknown; model?: unknown } };
+		try {
+			entry = JSON.parse(line);
+		} catch {
+			continue;
+		}
+
+		if (entry.type === "model_change" && typeof entry.modelId === "string") {
+			model = entry.modelId;
+			continue;
+		}
+		if (entry.type !== "message" || !entry.message) continue;
+		if (entry.message.role === "assistant" && typeof entry.message.model === "string") {
+			model = entry.message.model;
+		}
+
+		const text = extractMessageText(entry.message);
+		if (!text.trim()) continue;
+		turns.push({ role: entry.message.role as TranscriptRole, text });
+		if (turns.length > maxTurns) turns.shift();
+	}
+
+	return { cwd, model, size, turns };
+}
+
+export async function readSessionDetails(sessionPath: string, maxTurns = DEFAULT_PREVIEW_TURNS): Promise<SessionDetails> {
+	const [contents, stats] = await Promise.all([readFile(sessionPath, "utf8"), stat(sessionPath)]);
+	return parseSessionDetails(contents, stats.size, maxTurns);
+}
+
+/**
+ * Picks the turns worth quoting from a transcript: each turn containing one of `terms` with the turns
+ * on either side of it, or the last turns when there are no terms or nothing matches. Returns at most
+ * `maxTurns` indices, in order.
+ */
+export function selectExcerptTurns(turns: TranscriptTurn[], terms: string[], maxTurns: number): number[] {
+	const matching = turns
+		.map((turn, index) => ({ text: turn.text.toLowerCase(), index }))
+		.filter(({ text }) => terms.some((term) => text.includes(term)))
+		.map(({ index }) => index);
+	if (matching.length === 0) {
+		const start = Math.max(0, turns.length - maxTurns);
+		return turns.slice(start).map((_, offset) => start + offset);
+	}
+
+	const selected = new Set<number>();
+	for (const index of matching) {
+		for (const neighbour of [index - 1, index, index + 1]) {
+			if (neighbour < 0 || neighbour >= turns.length) continue;
+			if (selected.size >= maxTurns) break;
+			selected.add(neighbour);
+		}
+	}
+	return [...selected].sort((a, b) => a - b);
+}
@@ -0,0 +1,231 @@
+import { readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { getPathKind, listSessionFileNames, normalizeSnippet, tokenizeArgs } from "./link-sessions-core.ts";
+import { readMirrorMarker } from "./link-sessions-mirror.ts";
+import { extractMessageText } from "./link-sessions-preview.ts";
+
+export interface SearchFolder {
+	name: string;
+	path: string;
+}
+
+export interface SessionSearchHit {
+	folderName: string;
+	folderPath: string;
+	sessionPath: string;
+	sessionId: string;
+	title: string;
+	snippet: string;
+	/** `[start, end)` ranges of query terms within `snippet`. */
+	highlights: Array<[number, number]>;
+	matchCount: number;
+	modified: Date;
+}
+
+export interface FolderSearchResult {
+	folderName: string;
+	folderPath: string;
+	/** Best hits first. */
+	hits: SessionSearchHit[];
+}
+
+export interface SearchProgress {
+	scanned: number;
+	total: number;
+}
+
+export interface SearchOptions {
+	signal?: AbortSignal;
+	onProgress?: (progress: SearchProgress) => void;
+}
+
+interface SessionText {
+	id: string;
+	title: string;
+	messages: string[];
+}
+
+const SNIPPET_RADIUS = 40;
+
+/** Splits a query into lowercase terms; quoted phrases stay one term. */
+export function parseSearchQuery(query: string): string[] {
+	let tokens: string[];
+	try {
+		tokens = tokenizeArgs(query);
+	} catch {
+		tokens = query.split(/\s+/);
+	}
+	return tokens.map((token) => normalizeSnippet(token).toLowerCase()).filter((token) => token !== "");
+}
+
+/** Reads the id, title and user/assistant message text out of a session file's contents. */
+export function extractSessionText(contents: string): SessionText | undefined {
+	const lines = contents.split("\n");
+	let header: { type?: unknown; id?: unknown };
+	try {
+		header = JSON.parse(lines[0] ?? "");
+	} catch {
+		return undefined;
+	}
+	if (header?.type !== "session" || typeof header.id !== "string") return undefined;
+
+	let name: string | undefined;
+	let firstUserMessage: string | undefined;
+	const messages: string[] = [];
+	for (const line of lines.slice(1)) {
+		if (!line) continue;
+		let entry: { type?: unknown; name?: unknown; message?: { role?: unknown } };
+		try {
+			entry = JSON.parse(line);
+		} catch {
+			continue;
+		}
+		if (entry.type === "session_info") {
+			name = typeof entry.name === "string" && entry.name.trim() ? entry.name.trim() : undefined;
+			continue;
+		}
+		if (entry.type !== "message") continue;
+
+		const text = extractMessageText(entry.message);
+		if (!text) continue;
+		messages.push(text);
+		if (firstUserMessage === undefined && entry.message?.role === "user") firstUserMessage = text;
+	}
+
+	return { id: header.id, title: normalizeSnippet(name ?? firstUserMessage ?? "(untitled)"), messages };
+}
+
+function countOccurrences(text: string, term: string): number {
+	let count = 0;
+	for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+		count += 1;
+	}
+	return count;
+}
+
+/** Cuts a window around the first match in `text` and marks every term inside it. */
+export function buildSnippet(text: string, terms: string[]): { snippet: string; highlights: Array<[number, number]> } {
+	const normalized = normalizeSnippet(text);
+	const lower = normalized.toLowerCase();
+	const first = Math.min(...terms.map((term) => lower.indexOf(term)).filter((index) => index !== -1));
+	const anchor = Number.isFinite(first) ? first : 0;
+
+	const start = Math.max(0, anchor - SNIPPET_RADIUS);
+	const end = Math.min(normalized.length, anchor + SNIPPET_RADIUS * 2);
+	const prefix = start > 0 ? "…" : "";
+	const snippet = `${prefix}${normalized.slice(start, end)}${end < normalized.length ? "…" : ""}`;
+
+	const window = lower.slice(start, end);
+	const highlights: Array<[number, number]> = [];
+	for (const term of terms) {
+		for (let index = window.indexOf(term); index !== -1; index = window.indexOf(term, index + term.length)) {
+			highlights.push([prefix.length + index, prefix.length + index + term.length]);
+		}
+	}
+	highlights.sort((a, b) => a[0] - b[0]);
+	return { snippet, highlights };
+}
+
+/** Returns undefined unless every term occurs somewhere in the session's messages. */
+export function matchSessionText(
+	session: SessionText,
+	terms: string[],
+): Pick<SessionSearchHit, "snippet" | "highlights" | "matchCount"> | undefined {
+	if (terms.length === 0) return undefined;
+
+	const lowered = session.messages.map((message) => normalizeSnippet(message).toLowerCase());
+	const all = lowered.join("\n");
+	if (!terms.every((term) => all.includes(term))) return undefined;
+
+	const matchCount = terms.reduce((sum, term) => sum + countOccurrences(all, term), 0);
+	// Prefer a message that contains every term for the snippet, then the one with the most matches.
+	let bestIndex = 0;
+	let bestScore = -1;
+	lowered.forEach((message, index) => {
+		const present = terms.filter((term) => message.includes(term)).length;
+		const score = present * 1000 + terms.reduce((sum, term) => sum + countOccurrences(message, term), 0);
+		if (score > bestScore) {
+			bestScore = score;
+			bestIndex = index;
+		}
+	});
+
+	return { ...buildSnippet(session.messages[bestIndex] ?? "", terms), matchCount };
+}
+
+/** Linked and mirrored folders repeat the sessions of another folder, so only real folders are scanned. */
+function isSearchableFolder(folder: SearchFolder): boolean {
+	return getPathKind(folder.path) === "directory" && !readMirrorMarker(folder.path);
+}
+
+/**
+ * Scans the message text of every session in `folders`, yielding matches as they are found.
+ * Files are read one at a time and the scan checks `signal` between files, so it can run while the UI stays responsive.
+ */
+export async function* searchSessions(
+	folders: SearchFolder[],
+	query: string,
+	options: SearchOptions = {},
+): AsyncGenerator<SessionSearchHit> {
+	const terms = parseSearchQuery(query);
+	if (terms.length === 0) return;
+
+	const files = folders
+		.filter(isSearchableFolder)
+		.flatMap((folder) => listSessionFileNames(folder.path).map((name) => ({ folder, path: join(folder.path, name) })));
+	const progress: SearchProgress = { scanned: 0, total: files.length };
+	// Session files are JSON, so words are looked for in the raw file the way JSON escapes them.
+	const words = terms.flatMap((term) => term.split(" ")).map((word) => JSON.stringify(word).slice(1, -1));
+
+	for (const { folder, path } of files) {
+		if (options.signal?.aborted) return;
+
+		let contents: string;
+		let modified: Date;
+		try {
+			contents = await readFile(path, "utf8");
+			modified = (await stat(path)).mtime;
+		} catch {
+			contents = "";
+			modified = new Date(0);
+		}
+		progress.scanned += 1;
+		options.onProgress?.({ ...progress });
+
+		// Cheap check before parsing: every word must appear somewhere in the raw file.
+		const lower = contents.toLowerCase();
+		if (!words.every((word) => lower.includes(word))) continue;
+
+		const session = extractSessionText(contents);
+		const match = session ? matchSessionText(session, terms) : undefined;
+		if (!session || !match) continue;
+
+		yield {
+			folderName: folder.name,
+			folderPath: folder.path,
+			sessionPath: path,
+			sessionId: session.id,
+			title: session.title,
+			modified,
+			...match,
+		};
+	}
+}
+
+export function compareSearchHits(a: SessionSearchHit, b: SessionSearchHit): number {
+	return b.matchCount - a.matchCount || b.modified.getTime() - a.modified.getTime();
+}
+
+/** Groups hits by folder. Folders are ordered by their best hit, then by how many sessions matched. */
+export function rankSearchResults(hits: SessionSearchHit[]): FolderSearchResult[] {
+	const byFolder = new Map<string, FolderSearchResult>();
+	for (const hit of hits) {
+		const result = byFolder.get(hit.folderPath) ?? { folderName: hit.folderName, folderPath: hit.folderPath, hits: [] };
+		result.hits.push(hit);
+		byFolder.set(hit.folderPath, result);
+	}
+
+	const results = [...byFolder.values()];
+	for (const result of results) result.hits.sort(compareSearchHits);
+	return results.sort((a, b) => compareSearchHits(a.hits[0]!, b.hits[0]!) || b.hits.length - a.hits.length);
+}
@@ -0,0 +1,192 @@
+import { lstatSync, readdirSync, readFileSync, rmSync, statSync } from "node:fs";
+import { basename, join } from "node:path";
+import {
+	type LinkTransaction,
+	type PathKind,
+	type TrashMetadata,
+	countSessionFiles,
+	createRestoreTransaction,
+	getPathKind,
+	getTrashDir,
+	mergeSessionFiles,
+	safeRemovePath,
+} from "./link-sessions-core.ts";
+
+export interface TrashEntry {
+	/** Name of the folder inside the trash. */
+	id: string;
+	path: string;
+	originalName: string;
+	originalPath: string;
+	/** What is at the original path now. */
+	originalKind: PathKind;
+	trashedAt: Date;
+	sessionCount: number;
+	/** Total size of the folder's files in bytes. */
+	size: number;
+}
+
+export interface TrashPolicy {
+	/** Entries older than this many days are purged; 0 keeps them until purged by hand. */
+	retentionDays: number;
+	/** Oldest entries are purged while the trash is larger than this; 0 means no cap. */
+	maxSizeMb: number;
+}
+
+const DAY_MS = 24 * 60 * 60_000;
+
+/** `moveToTrash` writes the metadata just before moving the folder in, so younger metadata may not be orphaned yet. */
+const ORPHANED_METADATA_MIN_AGE_MS = 60_000;
+
+function folderSize(path: string): number {
+	let size = 0;
+	for (const entry of readdirSync(path, { withFileTypes: true })) {
+		const entryPath = join(path, entry.name);
+		size += entry.isDirectory() ? folderSize(entryPath) : lstatSync(entryPath).size;
+	}
+	return size;
+}
+
+function readTrashMetadata(metadataPath: string): TrashMetadata | undefined {
+	try {
+		const metadata = JSON.parse(readFileSync(metadataPath, "utf8"));
+		if (typeof metadata?.originalPath !== "string" || typeof metadata.trashedAt !== "string") return undefined;
+		return metadata as TrashMetadata;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Lists the folders in a sessions root's trash, most recently trashed first. */
+export function listTrash(sessionsRoot: string): TrashEntry[] {
+	const trashDir = getTrashDir(sessionsRoot);
+	let names: string[];
+	try {
+		names = readdirSync(trashDir);
+	} catch {
+		return [];
+	}
+
+	const entries: TrashEntry[] = [];
+	for (const id of names) {
+		const path = join(trashDir, id);
+		if (id.endsWith(".json") || getPathKind(path) !== "directory") continue;
+
+		// Without its metadata a folder is still listed, restored next to the trash under its own name.
+		const metadata = readTrashMetadata(`${path}.json`);
+		const originalPath = metadata?.originalPath ?? join(sessionsRoot, id.replace(/^\d+-/, ""));
+		let size = 0;
+		try {
+			size = folderSize(path);
+		} catch {
+			// leave the size unknown
+		}
+		entries.push({
+			id,
+			path,
+			originalName: basename(originalPath),
+			originalPath,
+			originalKind: getPathKind(originalPath),
+			trashedAt: new Date(metadata?.trashedAt ?? Number(/^\d+/.exec(id)?.[0] ?? 0)),
+			sessionCount: countSessionFiles(path),
+			size,
+		});
+	}
+	return entries.sort((a, b) => b.trashedAt.getTime() - a.trashedAt.getTime());
+}
+
+export function purgeTrashEntry(entry: TrashEntry): void {
+	safeRemovePath(entry.path);
+	rmSync(`${entry.path}.json`, { force: true });
+}
+
+/**
+ * Puts a trashed folder back at its original path. Whatever is there now is set aside until commit
+ * and then trashed in turn; when the original folder is a real directory, the sessions are merged into it instead.
+ */
+export function createTrashRestoreTransaction(entry: TrashEntry): LinkTransaction {
+	if (entry.originalKind !== "directory") {
+		const transaction = createRestoreTransaction(entry.originalPath, entry.path);
+		return {
+			...transaction,
+			rollback() {
+				transaction.rollback();
+			},
+			commit() {
+				transaction.commit();
+				rmSync(`${entry.path}.json`, { force: true });
+			},
+		};
+	}
+
+	const merged = mergeSessionFiles(entry.path, entry.originalPath);
+	let closed = false;
+
+	return {
+		merged,
+		rollback() {
+			if (closed) return;
+			closed = true;
+
+			for (const file of merged) {
+				rmSync(file.destination, { force: true });
+			}
+		},
+		commit() {
+			if (closed) return;
+			closed = true;
+
+			purgeTrashEntry(entry);
+		},
+	};
+}
+
+/**
+ * Picks the entries the policy no longer keeps: those past the retention period, then the oldest
+ * while the trash is over its size cap. The most recent entry is never purged for size.
+ */
+export function selectExpiredTrash(entries: TrashEntry[], policy: TrashPolicy, now = Date.now()): TrashEntry[] {
+	const newestFirst = [...entries].sort((a, b) => b.trashedAt.getTime() - a.trashedAt.getTime());
+	const expired = new Set<TrashEntry>();
+	if (policy.retentionDays > 0) {
+		for (const entry of newestFirst) {
+			if (now - entry.trashedAt.getTime() > policy.retentionDays * DAY_MS) expired.add(entry);
+		}
+	}
+
+	if (policy.maxSizeMb > 0) {
+		const kept = newestFirst.filter((entry) => !expired.has(entry));
+		let total = kept.reduce((sum, entry) => sum + entry.size, 0);
+		for (const entry of kept.slice(1).reverse()) {
+			if (total <= policy.maxSizeMb * 1024 * 1024) break;
+			expired.add(entry);
+			total -= entry.size;
+		}
+	}
+
+	return newestFirst.filter((entry) => expired.has(entry));
+}
+
+/**
+ * Purges what the policy no longer keeps, plus metadata left behind by folders restored through undo.
+ * Callers hold the sessions root lock, so nothing is purged while another process restores it.
+ */
+export function pruneTrash(sessionsRoot: string, policy: TrashPolicy, now = Date.now()): TrashEntry[] {
+	const entries = listTrash(sessionsRoot);
+	const expired = selectExpiredTrash(entries, policy, now);
+	for (const entry of expired) {
+		purgeTrashEntry(entry);
+	}
+
+	const trashDir = getTrashDir(sessionsRoot);
+	try {
+		for (const name of readdirSync(trashDir)) {
+			const path = join(trashDir, name);
+			if (!name.endsWith(".json") || getPathKind(path.slice(0, -".json".length)) !== "missing") continue;
+			if (now - statSync(path).mtimeMs >= ORPHANED_METADATA_MIN_AGE_MS) rmSync(path, { force: true });
+		}
+	} catch {
+		// no trash yet
+	}
+	return expired;
+}
@@ -1,28 +1,221 @@
-import { SessionManager, type ExtensionAPI, type ExtensionCommandContext, type SessionInfo } from "@mariozechner/pi-coding-agent";
-import { Container, SelectList, Spacer, Text, type SelectItem } from "@mariozechner/pi-tui";
-import { mkdirSync } from "node:fs";
-import { basename, dirname } from "node:path";
+import { StringEnum } from "@mariozechner/pi-ai";
 import {
+	DEFAULT_MAX_LINES,
+	SessionManager,
+	formatSize,
+	getAgentDir,
+	truncateHead,
+	type ExtensionAPI,
+	type ExtensionCommandContext,
+	type ExtensionContext,
+	type SessionInfo,
+	type Theme,
+} from "@mariozechner/pi-coding-agent";
+import { Container, Input, SelectList, Spacer, Text, matchesKey, type SelectItem } from "@mariozechner/pi-tui";
+import { mkdirSync, statSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { type Static, Type } from "typebox";
+import { ADOPT_MODES, type AdoptMode, type AdoptTransaction, createAdoptTransaction } from "./link-sessions-adopt.ts";
+import {
+	BUNDLE_FILE_EXTENSION,
+	type ImportPlan,
+	type ImportTransaction,
+	type SessionBundle,
+	createImportTransaction,
+	planImport,
+	readBundle,
+	writeBundle,
+} from "./link-sessions-bundle.ts";
+import {
+	CONFIG_FILE_NAME,
+	type LinkSessionsConfig,
+	defaultConfig,
+	loadConfig,
+	saveConfig,
+} from "./link-sessions-config.ts";
+import {
+	type BackupInfo,
 	type FolderChoice,
+	type LinkCandidate,
+	type LinkCandidateReason,
+	type LinkCommandArgs,
+	type LinkPlan,
 	type LinkTransaction,
+	type PathKind,
+	type PathMapping,
+	type RootFolderChoices,
+	applyPathMappings,
+	type UnlinkMode,
+	bestFolderMatches,
 	countSessionFiles,
-	createLinkTransaction,
+	createRelativeLinksTransaction,
+	createSessionCwdTransaction,
+	createUnlinkTransaction,
+	decodeFolderName,
+	disposeBackup,
+	executeLinkPlan,
+	findAbsoluteLinks,
+	findLinkCandidates,
+	findOrphanedBackups,
+	filterSessions,
+	findSessionByQuery,
+	formatAge,
 	formatDateTime,
+	formatLinkPlan,
 	formatSessionOption,
 	getPathKind,
+	isSessionRootReachable,
+	isRelativeLink,
 	listFolderChoices,
+	listRootFolderChoices,
+	mapFolderName,
+	matchFolderChoices,
 	normalizeSnippet,
+	parseLinkCommandArgs,
+	planLink,
+	resolveLinkTarget,
+	resolveSessionCwd,
+	resolveSymlinkChain,
+	restoreOrphanedBackup,
 	shortenPath,
+	suggestPathMapping,
 	truncate,
+	upsertPathMapping,
 } from "./link-sessions-core.ts";
+import {
+	FOLDER_SORT_KEYS,
+	type FolderSortKey,
+	type FolderStats,
+	collectFolderStats,
+	parseDashboardArgs,
+	sortFolderStats,
+	summarizeFolderStats,
+} from "./link-sessions-dashboard.ts";
+import {
+	type DoctorIssue,
+	createDoctorFixTransaction,
+	describeDoctorFix,
+	describeDoctorIssue,
+	diagnoseSessionsRoot,
+} from "./link-sessions-doctor.ts";
+import {
+	GC_ARCHIVE_DIR_NAME,
+	type GcAction,
+	type GcCandidate,
+	createGcTransaction,
+	findGcCandidates,
+} from "./link-sessions-gc.ts";
+import { SESSION_INDEX_FILE_NAME, type SessionIndex, createSessionIndex } from "./link-sessions-index.ts";
+import {
+	appendJournalEntry,
+	createJournalEntry,
+	createUndoTransaction,
+	describePathState,
+	describeUndoChange,
+	formatJournalEntry,
+	getJournalPath,
+	journalTransaction,
+	readJournal,
+} from "./link-sessions-journal.ts";
+import {
+	type FolderLabel,
+	filterFolderChoices,
+	isEmptyFolderLabel,
+	loadFolderChoiceLabels,
+	parseTags,
+	readFolderLabels,
+	saveFolderLabel,
+} from "./link-sessions-labels.ts";
+import {
+	type SessionsLock,
+	acquireSessionsLock,
+	clearSessionPresence,
+	describeOtherSessions,
+	findOtherSessionsInFolder,
+	recordSessionPresence,
+} from "./link-sessions-lock.ts";
+import {
+	type TrashEntry,
+	createTrashRestoreTransaction,
+	listTrash,
+	pruneTrash,
+	purgeTrashEntry,
+} from "./link-sessions-trash.ts";
+import {
+	FOLDER_PICKER_SORTS,
+	type FolderManagerAction,
+	type FolderPickerSort,
+	createDeleteFolderTransaction,
+	createRenameFolderTransaction,
+	duplicateSessionFolder,
+	getFolderActions,
+	sortFolderChoices,
+} from "./link-sessions-manager.ts";
+import { type SessionDetails, readSessionDetails, selectExcerptTurns } from "./link-sessions-preview.ts";
+import {
+	type SessionSearchHit,
+	parseSearchQuery,
+	rankSearchResults,
+	searchSessions,
+} from "./link-sessions-search.ts";
+import {
+	createMirrorUnlinkTransaction,
+	formatMirrorSyncResult,
+	readMirrorMarker,
+	syncMirror,
+} from "./link-sessions-mirror.ts";
+
+const LINK_USAGE = [
+	"Usage: /link-sessions [folder|cwd] [--session <id|latest> | --new] [--merge | --replace] [--relative | --absolute | --mirror] [--rewrite-cwd] [--yes] [--dry-run]",
+	"       /link-sessions history",
+	"       /link-sessions undo [n] [--yes]",
+	"       /link-sessions recover [restore|discard <n> --yes]",
+	"       /link-sessions trash [restore <n> | purge <n|all>] [--yes]",
+	"       /link-sessions gc [archive|delete <n|all>] [--yes] [--dry-run]",
+	"       /link-sessions doctor [fix --yes]",
+	"       /link-sessions relativize [--yes] [--dry-run]",
+	"       /link-sessions status",
+	"       /link-sessions search <query>",
+	"       /link-sessions adopt [copy|move|symlink] [folder] [--new-ids] [--session <id|latest>] [--yes]",
+	"       /link-sessions export [folder] [file.pi-sessions] [--session <id|latest>] [--dry-run]",
+	"       /link-sessions import <file.pi-sessions> [current|new] [--new-ids] [--rewrite-cwd] [--yes] [--dry-run]",
+].join("\n");
+
+function getConfigPath(): string {
+	return join(getAgentDir(), CONFIG_FILE_NAME);
+}
 
-async function buildFolderPreviewText(folder: FolderChoice, cwd: string): Promise<string> {
-	const sessions = await SessionManager.list(cwd, folder.path);
+function openSessionIndex(): SessionIndex {
+	return createSessionIndex(join(getAgentDir(), SESSION_INDEX_FILE_NAME));
+}
+
+interface FolderPreviewOptions {
+	/** How many of the newest sessions to list; 5 by default. */
+	sessionLimit?: number;
+	/** List session ids, so a session can be named in a follow-up lookup. */
+	showIds?: boolean;
+}
+
+async function buildFolderPreviewText(
+	folder: FolderChoice,
+	cwd: string,
+	pathMappings: PathMapping[],
+	index: SessionIndex,
+	label: FolderLabel | undefined,
+	options: FolderPreviewOptions = {},
+): Promise<string> {
+	const sessions = await index.loadFolder(folder.path);
 	const lines: string[] = [];
-	lines.push(`folder: ${folder.name}${folder.isCurrent ? " (current)" : ""}`);
+	if (label?.label) lines.push(`label: ${label.label}`);
+	lines.push(`folder: ${folder.name}${folder.isCurrent ? " (current)" : ""}${folder.isSuggested ? " (suggested)" : ""}`);
+	if (label && label.tags.length > 0) lines.push(`tags: ${formatTags(label.tags)}`);
+	if (label?.note) lines.push(`note: ${label.note}`);
+	if (folder.root) lines.push(`root: ${folder.root} (${shortenPath(dirname(folder.path))})`);
 	lines.push(`sessions: ${sessions.length}`);
 	if (sessions[0]?.cwd) {
-		lines.push(`cwd: ${shortenPath(sessions[0].cwd)}`);
+		const mappedCwd = applyPathMappings(sessions[0].cwd, pathMappings);
+		const mappedText = mappedCwd ? ` → ${shortenPath(mappedCwd)}${mappedCwd === cwd ? " (this cwd)" : ""}` : "";
+		lines.push(`cwd: ${shortenPath(sessions[0].cwd)}${mappedText}`);
 	}
 
 	if (sessions.length === 0) {
@@ -30,99 +223,445 @@ async function buildFolderPreviewText(folder: FolderChoice, cwd: string): Promis
 		return lines.join("\n");
 	}
 
-	const lastSessions = sessions.slice(0, 5);
+	const lastSessions = sessions.slice(0, options.sessionLimit ?? 5);
 	lines.push("", `Last ${lastSessions.length} sessions:`);
 	for (const session of lastSessions) {
 		const title = truncate(normalizeSnippet(session.name ?? session.firstMessage ?? "(untitled)"), 100);
-		lines.push(`- ${formatDateTime(session.modified)}  ${title}`);
+		const id = options.showIds ? `${session.id}  ` : "";
+		lines.push(`- ${formatDateTime(new Date(session.mtimeMs))}  ${id}${title}`);
 	}
 
 	return lines.join("\n");
 }
 
+type FolderPickerResult =
+	| {
+			action: "select" | "edit-mappings" | "edit-label" | FolderManagerAction;
+			folder: FolderChoice;
+			state: FolderPickerState;
+	  }
+	| { action: "search"; state: FolderPickerState };
+
+/** Where the folder picker reopens after an edit or a folder action. */
+interface FolderPickerState {
+	/** Folder to highlight. */
+	path?: string;
+	filter: string;
+	sort: FolderPickerSort;
+}
+
+interface FolderPickerOptions {
+	initial?: FolderPickerState;
+	/** Offer the folder manager keys: open, unlink, rename, duplicate and delete. */
+	manage?: boolean;
+}
+
+interface PickedFolder {
+	folder: FolderChoice;
+	/** Session found through search, to resume right away. */
+	sessionId?: string;
+	/** A folder action already finished the command, e.g. by opening a session. */
+	finished?: boolean;
+}
+
+function formatTags(tags: string[]): string {
+	return tags.map((tag) => `#${tag}`).join(" ");
+}
+
+function formatFolderDescription(choice: FolderChoice, label?: FolderLabel): string {
+	const count = `${choice.sessionCount} session${choice.sessionCount === 1 ? "" : "s"}`;
+	const parts = [choice.lastModified && choice.sessionCount > 0 ? `${count} • ${formatAge(choice.lastModified)} ago` : count];
+	if (label && label.tags.length > 0) parts.push(formatTags(label.tags));
+	if (label?.note) parts.push(truncate(normalizeSnippet(label.note), 60));
+	return parts.join(" • ");
+}
+
+/** How many folders above and below the highlighted one get their previews loaded ahead of time. */
+const PREFETCH_NEIGHBOURS = 2;
+
+const FOLDER_MANAGER_KEYS = [
+	["open", "ctrl+o", "open session"],
+	["unlink", "ctrl+u", "unlink"],
+	["rename", "ctrl+n", "rename"],
+	["duplicate", "ctrl+d", "duplicate"],
+	["delete", "ctrl+x", "delete"],
+] as const;
+
+function formatFolderLabel(choice: FolderChoice, label?: FolderLabel): string {
+	const folderName = label?.label ? `${label.label} · ${choice.name}` : choice.name;
+	const name = choice.root ? `${choice.root} › ${folderName}` : folderName;
+	if (choice.isCurrent) return `${name} (current)`;
+	if (choice.isSuggested) return `${name} (suggested)`;
+	return name;
+}
+
 async function selectFolderWithPreview(
 	ctx: ExtensionCommandContext,
 	folderChoices: FolderChoice[],
-): Promise<FolderChoice | undefined> {
-	const items: SelectItem[] = folderChoices.map((choice) => ({
-		value: choice.name,
-		label: choice.isCurrent ? `${choice.name} (current)` : choice.name,
-		description: `${choice.sessionCount} session${choice.sessionCount === 1 ? "" : "s"}`,
-	}));
-
-	const selectedFolderName = await ctx.ui.custom<string | null>((tui, theme, _kb, done) => {
+	pathMappings: PathMapping[],
+	index: SessionIndex,
+	options: FolderPickerOptions = {},
+): Promise<FolderPickerResult | undefined> {
+	const labels = loadFolderChoiceLabels(folderChoices);
+
+	const picked = await ctx.ui.custom<{ action: FolderPickerResult["action"]; state: FolderPickerState } | null>(
+		(tui, theme, _kb, done) => {
+			const container = new Container();
+			container.addChild(new Text(theme.fg("accent", theme.bold("Choose session folder")), 1, 0));
+			const filterText = new Text("", 1, 0);
+			container.addChild(filterText);
+			const list = new Container();
+			container.addChild(list);
+			container.addChild(new Spacer(1));
+
+			container.addChild(new Text(theme.fg("accent", theme.bold("Preview: last 5 sessions")), 1, 0));
+			const previewText = new Text(theme.fg("muted", "(loading preview...)"), 1, 0);
+			container.addChild(previewText);
+			container.addChild(new Spacer(1));
+			const folderHintText = new Text("", 1, 0);
+			container.addChild(folderHintText);
+			container.addChild(
+				new Text(
+					theme.fg(
+						"dim",
+						"type to filter • ↑↓ navigate • ctrl+s sort • ctrl+e label • ctrl+f search sessions • ctrl+r path rules • esc cancel",
+					),
+					1,
+					0,
+				),
+			);
+
+			const previewCache = new Map<string, string>();
+			const pendingPreviews = new Map<string, Promise<string>>();
+			const folderActions = new Map<string, FolderManagerAction[]>();
+			let previewRequestId = 0;
+			let filter = options.initial?.filter ?? "";
+			let sort: FolderPickerSort = options.initial?.sort ?? "recent";
+			let visible: FolderChoice[] = folderChoices;
+			let selectList: SelectList | undefined;
+
+			const getActions = (folder: FolderChoice) => {
+				if (!options.manage) return [];
+				let actions = folderActions.get(folder.path);
+				if (!actions) {
+					actions = getFolderActions(folder);
+					folderActions.set(folder.path, actions);
+				}
+				return actions;
+			};
+
+			/** Lists only the keys that apply to the highlighted folder. */
+			const updateFolderHint = (folder: FolderChoice | undefined) => {
+				if (!folder) {
+					folderHintText.setText("");
+					return;
+				}
+				const enter = options.manage ? (folder.isCurrent ? "enter resume" : "enter link") : "enter select";
+				const actions = getActions(folder);
+				const keys = FOLDER_MANAGER_KEYS.filter(([action]) => actions.includes(action)).map(([, key, text]) => `${key} ${text}`);
+				folderHintText.setText(theme.fg("dim", [enter, ...keys].join(" • ")));
+			};
+
+			const getState = (): FolderPickerState => ({ path: selectList?.getSelectedItem()?.value, filter, sort });
+
+			const buildPreview = (folder: FolderChoice) => {
+				let preview = pendingPreviews.get(folder.path);
+				if (!preview) {
+					preview = buildFolderPreviewText(folder, ctx.cwd, pathMappings, index, labels.get(folder.path))
+						.catch((err) => `(failed to load preview) ${err instanceof Error ? err.message : String(err)}`)
+						.then((text) => {
+							previewCache.set(folder.path, text);
+							return text;
+						});
+					pendingPreviews.set(folder.path, preview);
+				}
+				return preview;
+			};
+
+			/** Builds the previews of nearby folders one at a time, so scrolling to them shows a finished preview. */
+			const prefetchNeighbours = async (position: number, reqId: number) => {
+				for (let distance = 1; distance <= PREFETCH_NEIGHBOURS; distance++) {
+					for (const neighbour of [visible[position + distance], visible[position - distance]]) {
+						if (reqId !== previewRequestId) return;
+						if (neighbour) await buildPreview(neighbour);
+					}
+				}
+			};
+
+			const setPreviewText = (text: string, color: "muted" | "warning" = "muted") => {
+				previewText.setText(color === "warning" ? theme.fg("warning", text) : theme.fg("muted", text));
+			};
+
+			const loadPreview = (folderPath: string) => {
+				const reqId = ++previewRequestId;
+				const position = visible.findIndex((f) => f.path === folderPath);
+				const folder = visible[position];
+				updateFolderHint(folder);
+				if (!folder) {
+					setPreviewText("(invalid folder)", "warning");
+					tui.requestRender();
+					return;
+				}
+
+				const cached = previewCache.get(folderPath);
+				setPreviewText(cached ?? "(loading preview...)", cached?.startsWith("(failed to load preview)") ? "warning" : "muted");
+				tui.requestRender();
+				void buildPreview(folder).then((text) => {
+					if (reqId !== previewRequestId) return;
+					setPreviewText(text, text.startsWith("(failed to load preview)") ? "warning" : "muted");
+					tui.requestRender();
+					void prefetchNeighbours(position, reqId);
+				});
+			};
+
+			const rebuildList = (selectedPath = selectList?.getSelectedItem()?.value) => {
+				visible = filterFolderChoices(sortFolderChoices(folderChoices, sort), labels, filter);
+				const sortText = theme.fg("dim", ` • sorted by ${sort}`);
+				filterText.setText(`${filter ? `Filter: ${filter}` : theme.fg("dim", "Filter: (type to filter)")}${sortText}`);
+
+				list.clear();
+				if (visible.length === 0) {
+					selectList = undefined;
+					previewRequestId++;
+					updateFolderHint(undefined);
+					list.addChild(new Text(theme.fg("warning", folderChoices.length === 0 ? "No folders" : "No matching folders"), 1, 0));
+					setPreviewText(folderChoices.length === 0 ? "(no folders)" : "");
+					return;
+				}
+
+				const items: SelectItem[] = visible.map((choice) => ({
+					value: choice.path,
+					label: formatFolderLabel(choice, labels.get(choice.path)),
+					description: formatFolderDescription(choice, labels.get(choice.path)),
+				}));
+				selectList = new SelectList(items, Math.min(items.length, 10), {
+					selectedPrefix: (text) => theme.fg("accent", text),
+					selectedText: (text) => theme.fg("accent", text),
+					description: (text) => theme.fg("muted", text),
+					scrollInfo: (text) => theme.fg("dim", text),
+					noMatch: (text) => theme.fg("warning", text),
+				});
+				const keep = items.findIndex((item) => item.value === selectedPath);
+				if (keep > 0) selectList.setSelectedIndex(keep);
+
+				selectList.onSelectionChange = (item) => loadPreview(item.value);
+				selectList.onSelect = () => done({ action: "select", state: getState() });
+				selectList.onCancel = () => done(null);
+				list.addChild(selectList);
+
+				const highlighted = selectList.getSelectedItem();
+				if (highlighted) loadPreview(highlighted.value);
+			};
+
+			rebuildList(options.initial?.path);
+
+			return {
+				render(width: number) {
+					return container.render(width);
+				},
+				invalidate() {
+					container.invalidate();
+				},
+				handleInput(data: string) {
+					const item = selectList?.getSelectedItem();
+					const folder = item && visible.find((choice) => choice.path === item.value);
+					if (matchesKey(data, "ctrl+r") || matchesKey(data, "ctrl+e")) {
+						if (item) done({ action: matchesKey(data, "ctrl+r") ? "edit-mappings" : "edit-label", state: getState() });
+						return;
+					}
+					if (matchesKey(data, "ctrl+f")) {
+						done({ action: "search", state: getState() });
+						return;
+					}
+					const managerKey = FOLDER_MANAGER_KEYS.find(([, key]) => matchesKey(data, key));
+					if (managerKey) {
+						if (folder && getActions(folder).includes(managerKey[0])) done({ action: managerKey[0], state: getState() });
+						return;
+					}
+
+					if (matchesKey(data, "ctrl+s")) {
+						sort = FOLDER_PICKER_SORTS[(FOLDER_PICKER_SORTS.indexOf(sort) + 1) % FOLDER_PICKER_SORTS.length]!;
+						rebuildList();
+					} else if (matchesKey(data, "backspace")) {
+						filter = filter.slice(0, -1);
+						rebuildList();
+					} else if (data.length === 1 && data >= " " && data !== "\x7f") {
+						filter += data;
+						rebuildList();
+					} else if (selectList) {
+						selectList.handleInput(data);
+					} else if (matchesKey(data, "escape")) {
+						done(null);
+					}
+					tui.requestRender();
+				},
+			};
+		},
+	);
+
+	if (!picked) return undefined;
+	if (picked.action === "search") return { action: "search", state: picked.state };
+	const folder = folderChoices.find((choice) => choice.path === picked.state.path);
+	if (!folder) return undefined;
+	return { action: picked.action, folder, state: picked.state };
+}
+
+function highlightSnippet(snippet: string, highlights: Array<[number, number]>, mark: (text: string) => string): string {
+	let result = "";
+	let position = 0;
+	for (const [start, end] of highlights) {
+		if (end <= position) continue;
+		const from = Math.max(start, position);
+		result += snippet.slice(position, from) + mark(snippet.slice(from, end));
+		position = end;
+	}
+	return result + snippet.slice(position);
+}
+
+/** Orders hits folder by folder, best folder first, so the list reads as ranked folders with their sessions. */
+function orderSearchHits(hits: SessionSearchHit[]): SessionSearchHit[] {
+	return rankSearchResults(hits).flatMap((result) => result.hits);
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+/** Streams search results into a list as they are found; typing restarts the search. */
+async function searchSessionsInteractively(
+	ctx: ExtensionCommandContext,
+	folderChoices: FolderChoice[],
+	initialQuery: string,
+): Promise<SessionSearchHit | undefined> {
+	const folderLabels = loadFolderChoiceLabels(folderChoices);
+	const labels = new Map(
+		folderChoices.map((choice) => [choice.path, formatFolderLabel(choice, folderLabels.get(choice.path))]),
+	);
+
+	return ctx.ui.custom<SessionSearchHit | undefined>((tui, theme, _kb, done) => {
 		const container = new Container();
-		container.addChild(new Text(theme.fg("accent", theme.bold("Choose session folder")), 1, 0));
-
-		const selectList = new SelectList(items, Math.min(items.length, 10), {
-			selectedPrefix: (text) => theme.fg("accent", text),
-			selectedText: (text) => theme.fg("accent", text),
-			description: (text) => theme.fg("muted", text),
-			scrollInfo: (text) => theme.fg("dim", text),
-			noMatch: (text) => theme.fg("warning", text),
-		});
-		container.addChild(selectList);
+		container.addChild(new Text(theme.fg("accent", theme.bold("Search sessions")), 1, 0));
+		const input = new Input();
+		input.setValue(initialQuery);
+		input.focused = true;
+		container.addChild(input);
+		const statusText = new Text("", 1, 0);
+		container.addChild(statusText);
+		const results = new Container();
+		container.addChild(results);
 		container.addChild(new Spacer(1));
-
-		container.addChild(new Text(theme.fg("accent", theme.bold("Preview: last 5 sessions")), 1, 0));
-		const previewText = new Text(theme.fg("muted", "(loading preview...)"), 1, 0);
+		const previewText = new Text("", 1, 0);
 		container.addChild(previewText);
 		container.addChild(new Spacer(1));
-		container.addChild(new Text(theme.fg("dim", "↑↓ navigate • enter select • esc cancel"), 1, 0));
+		container.addChild(new Text(theme.fg("dim", "type to search • ↑↓ navigate • enter link and resume • esc back"), 1, 0));
 
-		const previewCache = new Map<string, string>();
-		let previewRequestId = 0;
+		let hits: SessionSearchHit[] = [];
+		let ordered: SessionSearchHit[] = [];
+		let selectList: SelectList | undefined;
+		let controller: AbortController | undefined;
+		let debounce: ReturnType<typeof setTimeout> | undefined;
+		let renderPending = false;
+		let lastQuery = "";
 
-		const setPreviewText = (text: string, color: "muted" | "warning" = "muted") => {
-			previewText.setText(color === "warning" ? theme.fg("warning", text) : theme.fg("muted", text));
+		const showPreview = (hit: SessionSearchHit | undefined) => {
+			previewText.setText(
+				hit
+					? `${theme.fg("muted", `${shortenPath(hit.folderPath)} • ${formatAge(hit.modified)} ago`)}\n${highlightSnippet(hit.snippet, hit.highlights, (text) => theme.fg("accent", theme.bold(text)))}`
+					: "",
+			);
 		};
 
-		const loadPreview = (folderName: string) => {
-			const cached = previewCache.get(folderName);
-			if (cached) {
-				setPreviewText(cached);
-				tui.requestRender();
+		const rebuildList = () => {
+			const selectedId = selectList?.getSelectedItem()?.value;
+			ordered = orderSearchHits(hits);
+			const items: SelectItem[] = ordered.map((hit) => ({
+				value: hit.sessionPath,
+				label: `${labels.get(hit.folderPath) ?? hit.folderName} › ${truncate(hit.title, 48)}`,
+				description: `${hit.matchCount} match${hit.matchCount === 1 ? "" : "es"}`,
+			}));
+
+			results.clear();
+			if (items.length === 0) {
+				selectList = undefined;
+				showPreview(undefined);
 				return;
 			}
+			selectList = new SelectList(items, Math.min(items.length, 10), {
+				selectedPrefix: (text) => theme.fg("accent", text),
+				selectedText: (text) => theme.fg("accent", text),
+				description: (text) => theme.fg("muted", text),
+				scrollInfo: (text) => theme.fg("dim", text),
+				noMatch: (text) => theme.fg("warning", text),
+			});
+			const keep = items.findIndex((item) => item.value === selectedId);
+			if (keep > 0) selectList.setSelectedIndex(keep);
+			selectList.onSelectionChange = (item) => showPreview(ordered.find((hit) => hit.sessionPath === item.value));
+			selectList.onSelect = (item) => done(ordered.find((hit) => hit.sessionPath === item.value));
+			selectList.onCancel = () => done(undefined);
+			results.addChild(selectList);
+			showPreview(ordered[Math.max(keep, 0)]);
+		};
 
-			const reqId = ++previewRequestId;
-			setPreviewText("(loading preview...)");
-			tui.requestRender();
+		// Batch renders while results stream in.
+		const scheduleRender = () => {
+			if (renderPending) return;
+			renderPending = true;
+			setTimeout(() => {
+				renderPending = false;
+				rebuildList();
+				tui.requestRender();
+			}, 100);
+		};
 
-			const folder = folderChoices.find((f) => f.name === folderName);
-			if (!folder) {
-				setPreviewText("(invalid folder)", "warning");
+		const runSearch = (query: string) => {
+			controller?.abort();
+			hits = [];
+			rebuildList();
+			if (parseSearchQuery(query).length === 0) {
+				statusText.setText(theme.fg("dim", "Type to search message text in every session."));
 				tui.requestRender();
 				return;
 			}
 
-			void buildFolderPreviewText(folder, ctx.cwd)
-				.then((text) => {
-					previewCache.set(folderName, text);
-					if (reqId !== previewRequestId) return;
-					setPreviewText(text);
-					tui.requestRender();
-				})
-				.catch((err) => {
+			const current = new AbortController();
+			controller = current;
+			let scanned = 0;
+			let total = 0;
+			const setStatus = (finished: boolean) => {
+				const state = finished ? "Searched" : "Searching…";
+				statusText.setText(theme.fg("dim", `${state} ${scanned}/${total} sessions, ${hits.length} found`));
+			};
+			setStatus(false);
+			tui.requestRender();
+
+			void (async () => {
+				try {
+					for await (const hit of searchSessions(folderChoices, query, {
+						signal: current.signal,
+						onProgress: (progress) => {
+							scanned = progress.scanned;
+							total = progress.total;
+							if (progress.scanned % 50 === 0) {
+								setStatus(false);
+								scheduleRender();
+							}
+						},
+					})) {
+						hits.push(hit);
+						scheduleRender();
+					}
+					if (current.signal.aborted) return;
+					setStatus(true);
+					scheduleRender();
+				} catch (err) {
+					if (current.signal.aborted) return;
 					const message = err instanceof Error ? err.message : String(err);
-					const text = `(failed to load preview) ${message}`;
-					previewCache.set(folderName, text);
-					if (reqId !== previewRequestId) return;
-					setPreviewText(text, "warning");
+					statusText.setText(theme.fg("warning", `Search failed: ${message}`));
 					tui.requestRender();
-				});
+				}
+			})();
 		};
 
-		selectList.onSelectionChange = (item) => loadPreview(item.value);
-		selectList.onSelect = (item) => done(item.value);
-		selectList.onCancel = () => done(null);
-
-		const initial = selectList.getSelectedItem();
-		if (initial) {
-			loadPreview(initial.value);
-		} else {
-			setPreviewText("(no folders)");
-		}
+		runSearch(initialQuery);
+		lastQuery = initialQuery;
 
 		return {
 			render(width: number) {
@@ -131,164 +670,2669 @@ async function selectFolderWithPreview(
 			invalidate() {
 				container.invalidate();
 			},
+			dispose() {
+				controller?.abort();
+				if (debounce) clearTimeout(debounce);
+			},
 			handleInput(data: string) {
-				selectList.handleInput(data);
+				if (matchesKey(data, "escape")) {
+					done(undefined);
+					return;
+				}
+				if (matchesKey(data, "up") || matchesKey(data, "down") || matchesKey(data, "enter")) {
+					selectList?.handleInput(data);
+					tui.requestRender();
+					return;
+				}
+
+				input.handleInput(data);
+				const query = input.getValue();
+				if (query !== lastQuery) {
+					lastQuery = query;
+					if (debounce) clearTimeout(debounce);
+					debounce = setTimeout(() => runSearch(query), SEARCH_DEBOUNCE_MS);
+				}
 				tui.requestRender();
 			},
 		};
 	});
+}
+
+/** Plain-text search results: the ten best folders with their three best sessions each. */
+function formatSearchResultLines(hits: SessionSearchHit[]): string[] {
+	const lines: string[] = [];
+	for (const result of rankSearchResults(hits).slice(0, 10)) {
+		lines.push(`${result.folderName} (${result.hits.length} session${result.hits.length === 1 ? "" : "s"})`);
+		for (const hit of result.hits.slice(0, 3)) {
+			lines.push(`  ${hit.sessionId} ${formatDateTime(hit.modified)} ${truncate(hit.title, 60)}`);
+			lines.push(`    ${highlightSnippet(hit.snippet, hit.highlights, (text) => `*${text}*`)}`);
+		}
+	}
+	return lines;
+}
+
+async function printSearchResults(ctx: ExtensionCommandContext, folderChoices: FolderChoice[], query: string): Promise<void> {
+	const hits: SessionSearchHit[] = [];
+	for await (const hit of searchSessions(folderChoices, query)) {
+		hits.push(hit);
+	}
+	if (hits.length === 0) {
+		report(ctx, `No sessions match "${query}".`);
+		return;
+	}
 
-	if (!selectedFolderName) return undefined;
-	return folderChoices.find((choice) => choice.name === selectedFolderName);
+	const lines = formatSearchResultLines(hits);
+	lines.push("Link one with: /link-sessions <folder> --session <id> --yes");
+	report(ctx, lines.join("\n"));
 }
 
-async function selectSessionToResume(sessions: SessionInfo[], ctx: ExtensionCommandContext): Promise<SessionInfo | undefined> {
-	const options: string[] = [];
-	const byOption = new Map<string, SessionInfo>();
+/** What the folder manager keys of the link picker need to change folders. */
+interface FolderManagerContext {
+	currentSessionDir: string;
+	journalPath: string;
+}
 
-	for (let i = 0; i < sessions.length; i += 1) {
-		const option = formatSessionOption(sessions[i], i);
-		options.push(option);
-		byOption.set(option, sessions[i]);
+interface FolderActionOutcome {
+	/** The command is done, e.g. because another session was opened. */
+	finished?: boolean;
+	/** Folder to highlight when the picker reopens, if it moved or a new one was created. */
+	path?: string;
+}
+
+async function openFolderSession(ctx: ExtensionCommandContext, folder: FolderChoice): Promise<FolderActionOutcome> {
+	const sessions = await SessionManager.list(ctx.cwd, folder.path);
+	const session = await selectSessionsWithPreview(ctx, sessions, { title: `Open a session from ${folder.name}` });
+	if (!session?.[0]) return {};
+
+	const result = await ctx.switchSession(session[0].path);
+	if (result.cancelled) {
+		ctx.ui.notify("Session switch cancelled.", "info");
+		return {};
 	}
+	ctx.ui.notify(`Opened a session from ${folder.name} without linking it.`, "info");
+	return { finished: true };
+}
 
-	const selected = await ctx.ui.select("Select session to resume", options);
-	if (!selected) return undefined;
+async function unlinkFolder(
+	ctx: ExtensionCommandContext,
+	folder: FolderChoice,
+	manager: FolderManagerContext,
+): Promise<FolderActionOutcome> {
+	const mirror = readMirrorMarker(folder.path);
+	const target = mirror ? mirror.target : resolveLinkTarget(folder.path);
+	const targetLabel = target ? shortenPath(target) : "(missing target)";
+
+	const mode = await selectUnlinkMode(ctx, folder.name, targetLabel, mirror !== undefined);
+	if (!mode) return {};
+
+	const description = mirror
+		? `Stop mirroring ${targetLabel} in ${folder.name}?`
+		: `Replace the symlink ${folder.name} → ${targetLabel} with a real directory?`;
+	const othersWarning = describeOtherSessionsInFolder(dirname(folder.path), folder.path);
+	if (!(await ctx.ui.confirm("Unlink sessions?", othersWarning ? `${description}\n\nWarning: ${othersWarning}` : description))) {
+		return {};
+	}
+
+	let transaction: LinkTransaction;
+	try {
+		const previous = describePathState(folder.path);
+		transaction = journalTransaction(
+			mirror ? createMirrorUnlinkTransaction(folder.path, mode) : createUnlinkTransaction(folder.path, mode),
+			manager.journalPath,
+			{ action: "unlink", currentDir: folder.path, previous },
+		);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		ctx.ui.notify(`Failed to unlink ${folder.name}: ${message}`, "error");
+		return {};
+	}
 
-	return byOption.get(selected);
+	if (folder.isCurrent) {
+		await resumeInCurrentFolder(ctx, manager.currentSessionDir, transaction, {
+			newSession: "Sessions unlinked. Started a new session.",
+			switched: `Unlinked from ${targetLabel} and switched session.`,
+			committed: `Unlinked from ${targetLabel}.`,
+		});
+		return { finished: true };
+	}
+	transaction.commit();
+	ctx.ui.notify(`Unlinked ${folder.name} from ${targetLabel}.`, "info");
+	return {};
 }
 
-export default function linkSessionsExtension(pi: ExtensionAPI) {
-	const handler = async (_args: string, ctx: ExtensionCommandContext): Promise<void> => {
-		if (!ctx.hasUI) {
-			return;
-		}
+async function renameFolder(
+	ctx: ExtensionCommandContext,
+	folder: FolderChoice,
+	manager: FolderManagerContext,
+): Promise<FolderActionOutcome> {
+	const others = findOtherSessionsInFolder(dirname(folder.path), folder.path);
+	if (others.length > 0) {
+		ctx.ui.notify(`Cannot rename ${folder.name}: ${describeOtherSessions(others)}`, "error");
+		return {};
+	}
 
-		if (!ctx.isIdle()) {
-			ctx.ui.notify("Waiting for current response to finish...", "info");
-			await ctx.waitForIdle();
-		}
+	const newName = (await ctx.ui.input(`Rename ${folder.name} to`, folder.name))?.trim();
+	if (!newName || newName === folder.name) return {};
+	try {
+		const newPath = join(dirname(folder.path), newName);
+		const previous = describePathState(folder.path);
+		journalTransaction(createRenameFolderTransaction(folder.path, newName), manager.journalPath, {
+			action: "rename",
+			currentDir: folder.path,
+			previous,
+			renamedTo: newPath,
+		}).commit();
+		ctx.ui.notify(`Renamed ${folder.name} to ${newName}.`, "info");
+		return { path: newPath };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		ctx.ui.notify(`Cannot rename ${folder.name}: ${message}`, "error");
+		return {};
+	}
+}
 
-		const currentSessionDir = ctx.sessionManager.getSessionDir();
-		if (!currentSessionDir) {
-			ctx.ui.notify("Current session is ephemeral (--no-session). Cannot Link folders.", "error");
-			return;
+function duplicateFolder(ctx: ExtensionCommandContext, folder: FolderChoice): FolderActionOutcome {
+	try {
+		const newPath = duplicateSessionFolder(folder.path);
+		ctx.ui.notify(`Copied the ${folder.sessionCount} sessions of ${folder.name} to ${basename(newPath)}.`, "info");
+		return { path: newPath };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		ctx.ui.notify(`Cannot duplicate ${folder.name}: ${message}`, "error");
+		return {};
+	}
+}
+
+async function deleteFolder(
+	ctx: ExtensionCommandContext,
+	folder: FolderChoice,
+	manager: FolderManagerContext,
+): Promise<FolderActionOutcome> {
+	const kind = getPathKind(folder.path);
+	const description =
+		kind === "symlink"
+			? `Remove the link ${folder.name}? The folder it points to is kept.`
+			: `Move ${folder.name} with its ${folder.sessionCount} session${folder.sessionCount === 1 ? "" : "s"} to the trash? /link-sessions undo or /link-sessions trash can bring it back.`;
+	const othersWarning = describeOtherSessionsInFolder(dirname(folder.path), folder.path);
+	if (!(await ctx.ui.confirm("Delete folder?", othersWarning ? `${description}\n\nWarning: ${othersWarning}` : description))) {
+		return {};
+	}
+
+	try {
+		const previous = describePathState(folder.path);
+		journalTransaction(createDeleteFolderTransaction(folder.path), manager.journalPath, {
+			action: "delete",
+			currentDir: folder.path,
+			previous,
+		}).commit();
+		ctx.ui.notify(kind === "symlink" ? `Removed the link ${folder.name}.` : `Moved ${folder.name} to the trash.`, "info");
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		ctx.ui.notify(`Cannot delete ${folder.name}: ${message}`, "error");
+	}
+	return {};
+}
+
+async function runFolderAction(
+	ctx: ExtensionCommandContext,
+	action: FolderManagerAction,
+	folder: FolderChoice,
+	manager: FolderManagerContext,
+): Promise<FolderActionOutcome> {
+	switch (action) {
+		case "open":
+			return openFolderSession(ctx, folder);
+		case "unlink":
+			return unlinkFolder(ctx, folder, manager);
+		case "rename":
+			return renameFolder(ctx, folder, manager);
+		case "duplicate":
+			return duplicateFolder(ctx, folder);
+		case "delete":
+			return deleteFolder(ctx, folder, manager);
+	}
+}
+
+async function pickFolder(
+	ctx: ExtensionCommandContext,
+	loadChoices: (config: LinkSessionsConfig, index: SessionIndex) => RootFolderChoices,
+	configPath: string,
+	manager?: FolderManagerContext,
+): Promise<PickedFolder | undefined> {
+	const index = openSessionIndex();
+	const warned = new Set<string>();
+	let reopenAt: FolderPickerState | undefined;
+	try {
+		for (;;) {
+			const config = loadConfig(configPath);
+			const { choices, unreachable } = loadChoices(config, index);
+			for (const root of unreachable.filter((root) => !warned.has(root.path))) {
+				warned.add(root.path);
+				ctx.ui.notify(`Session root ${root.label} is not reachable: ${shortenPath(root.path)}`, "warning");
+			}
+			const result = await selectFolderWithPreview(ctx, choices, config.pathMappings, index, {
+				initial: reopenAt,
+				manage: manager !== undefined,
+			});
+			if (!result) return undefined;
+			if (result.action === "select") return { folder: result.folder };
+			reopenAt = result.state;
+
+			if (result.action === "search") {
+				const hit = await searchSessionsInteractively(ctx, choices, "");
+				const folder = hit && choices.find((choice) => choice.path === hit.folderPath);
+				if (hit && folder) return { folder, sessionId: hit.sessionId };
+				continue;
+			}
+			if (result.action === "edit-label") {
+				await editFolderLabel(ctx, result.folder);
+				continue;
+			}
+			if (result.action === "edit-mappings") {
+				await editPathMappings(ctx, configPath, result.folder);
+				continue;
+			}
+
+			// Folder actions change the root, so the choices are listed again when the picker reopens.
+			if (!manager) continue;
+			const outcome = await runFolderAction(ctx, result.action, result.folder, manager);
+			if (outcome.finished) return { folder: result.folder, finished: true };
+			if (outcome.path) reopenAt = { ...result.state, path: outcome.path };
 		}
+	} finally {
+		try {
+			index.save();
+		} catch {
+			// the index is only a cache
+		}
+	}
+}
 
-		const currentFolderName = basename(currentSessionDir);
-		const sessionsRoot = dirname(currentSessionDir);
-		mkdirSync(sessionsRoot, { recursive: true });
+async function editFolderLabel(ctx: ExtensionCommandContext, folder: FolderChoice): Promise<void> {
+	const sessionsRoot = dirname(folder.path);
+	let label: FolderLabel = readFolderLabels(sessionsRoot).get(folder.name) ?? { tags: [] };
 
-		const folderChoices = listFolderChoices(sessionsRoot, currentFolderName);
-		if (folderChoices.length === 0) {
-			ctx.ui.notify("No session folders found.", "warning");
-			return;
+	for (;;) {
+		const labelOption = `Label: ${label.label ?? "(none)"}`;
+		const tagsOption = `Tags: ${label.tags.length > 0 ? formatTags(label.tags) : "(none)"}`;
+		const noteOption = `Note: ${label.note ? truncate(normalizeSnippet(label.note), 60) : "(none)"}`;
+		const clearOption = "Clear label, tags and note";
+		const options = [labelOption, tagsOption, noteOption, ...(isEmptyFolderLabel(label) ? [] : [clearOption])];
+
+		const selected = await ctx.ui.select(`Label ${folder.name}`, options);
+		if (!selected) return;
+
+		let updated: FolderLabel;
+		if (selected === labelOption) {
+			const text = await ctx.ui.input("Label (leave empty to remove)", label.label ?? "e.g. API server");
+			if (text === undefined) continue;
+			updated = { ...label, label: text.trim() || undefined };
+		} else if (selected === tagsOption) {
+			const text = await ctx.ui.input("Tags, separated by spaces or commas (leave empty to remove)", label.tags.join(" "));
+			if (text === undefined) continue;
+			updated = { ...label, tags: parseTags(text) };
+		} else if (selected === noteOption) {
+			const text = await ctx.ui.editor("Note", label.note ?? "");
+			if (text === undefined) continue;
+			updated = { ...label, note: text.trim() || undefined };
+		} else {
+			updated = { tags: [] };
 		}
 
-		const selectedFolder = await selectFolderWithPreview(ctx, folderChoices);
-		if (!selectedFolder) {
-			ctx.ui.notify("Link sessions cancelled.", "info");
+		try {
+			label = saveFolderLabel(sessionsRoot, folder.name, updated).get(folder.name) ?? { tags: [] };
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			ctx.ui.notify(`Cannot save the label of ${folder.name}: ${message}`, "error");
 			return;
 		}
+	}
+}
 
-		let transaction: LinkTransaction | undefined;
-		const linkNeeded = !selectedFolder.isCurrent;
+async function editPathMappings(ctx: ExtensionCommandContext, configPath: string, folder: FolderChoice): Promise<void> {
+	const config = loadConfig(configPath);
+	const sessions = await SessionManager.list(ctx.cwd, folder.path);
+	const foreignCwd = sessions.find((session) => session.cwd)?.cwd ?? decodeFolderName(folder.name);
+	const suggestion = suggestPathMapping(foreignCwd, ctx.cwd);
 
-		if (linkNeeded) {
-			const currentKind = getPathKind(currentSessionDir);
-			if (currentKind === "other") {
-				ctx.ui.notify("Refusing to link: current session path is not a directory or symlink.", "error");
-				return;
-			}
+	const addSuggested = suggestion ? `Add rule: ${suggestion.from} → ${suggestion.to}` : undefined;
+	const addCustom = "Add custom rule…";
+	const removeOptions = config.pathMappings.map((mapping) => `Remove rule: ${mapping.from} → ${mapping.to}`);
+	const options = [...(addSuggested ? [addSuggested] : []), addCustom, ...removeOptions];
 
-			const confirmed = await ctx.ui.confirm(
-				"Link sessions?",
-				`Replace ${currentFolderName} with a symlink to ${selectedFolder.name}?`,
-			);
-			if (!confirmed) {
-				ctx.ui.notify("Link cancelled.", "info");
-				return;
-			}
+	const selected = await ctx.ui.select(`Path rules (${shortenPath(configPath)})`, options);
+	if (!selected) return;
 
-			if (currentKind === "directory") {
-				const sessionCount = countSessionFiles(currentSessionDir);
-				if (sessionCount > 1) {
-					const destructiveConfirmed = await ctx.ui.confirm(
-						"Permanent deletion warning",
-						`The current session folder (${currentFolderName}) is not a symlink and contains ${sessionCount} sessions. Continuing will permanently delete these existing sessions. Continue?`,
-					);
-					if (!destructiveConfirmed) {
-						ctx.ui.notify("Link cancelled. No files were changed.", "info");
-						return;
-					}
-				}
-			}
+	let pathMappings = config.pathMappings;
+	if (selected === addSuggested && suggestion) {
+		pathMappings = upsertPathMapping(pathMappings, suggestion);
+	} else if (selected === addCustom) {
+		const from = await ctx.ui.input("Path prefix recorded on the other machine", suggestion?.from ?? foreignCwd);
+		if (!from) return;
+		const to = await ctx.ui.input(`Replace ${from} with`, suggestion?.to ?? ctx.cwd);
+		if (!to) return;
+		pathMappings = upsertPathMapping(pathMappings, { from, to });
+	} else {
+		const index = removeOptions.indexOf(selected);
+		if (index < 0) return;
+		pathMappings = pathMappings.filter((_, i) => i !== index);
+	}
 
-			try {
-				transaction = createLinkTransaction(currentSessionDir, selectedFolder.path);
-			} catch (err) {
-				const message = err instanceof Error ? err.message : String(err);
-				ctx.ui.notify(`Failed to link sessions: ${message}`, "error");
-				return;
-			}
-		}
+	saveConfig(configPath, { ...config, pathMappings });
+	ctx.ui.notify("Path rules saved.", "info");
+}
 
-		try {
-			const sessions = await SessionManager.list(ctx.cwd, currentSessionDir);
-			const revertedSuffix = linkNeeded ? " Changes reverted." : "";
-			if (sessions.length === 0) {
-				const createNew = await ctx.ui.confirm(
-					"No sessions found",
-					"Create a new session in this folder now?",
-				);
+interface SessionPickerOptions {
+	title: string;
+	/** Let the user check several sessions with tab. */
+	multiple?: boolean;
+}
 
-				if (!createNew) {
-					transaction?.rollback();
-					ctx.ui.notify(`No session selected.${revertedSuffix}`, "info");
-					return;
-				}
+function formatTranscriptPreview(details: SessionDetails, theme: Theme): string {
+	const meta = [
+		`cwd: ${details.cwd ? shortenPath(details.cwd) : "(unknown)"}`,
+		`model: ${details.model ?? "(unknown)"}`,
+		formatSize(details.size),
+	].join(" • ");
+	if (details.turns.length === 0) return `${meta}\n${theme.fg("dim", "(no messages)")}`;
 
-				const result = await ctx.newSession();
-				if (result.cancelled) {
-					transaction?.rollback();
-					ctx.ui.notify(`Session creation cancelled.${revertedSuffix}`, "info");
-					return;
-				}
+	const turns = details.turns.map((turn) => {
+		const role = turn.role === "user" ? theme.fg("accent", "you") : theme.fg("success", "assistant");
+		return `${role}: ${truncate(normalizeSnippet(turn.text), 160)}`;
+	});
+	return [meta, ...turns].join("\n");
+}
 
-				transaction?.commit();
-				ctx.ui.notify(
-					linkNeeded ? "Sessions linked. Started a new session." : "Started a new session.",
-					"info",
-				);
-				return;
+/**
+ * Session picker with type-to-filter and a transcript preview of the highlighted session.
+ * Returns the chosen sessions (one unless `multiple`), or undefined when cancelled.
+ */
+async function selectSessionsWithPreview(
+	ctx: ExtensionCommandContext,
+	sessions: SessionInfo[],
+	options: SessionPickerOptions,
+): Promise<SessionInfo[] | undefined> {
+	const checked = new Set<string>();
+	const labels = new Map(sessions.map((session, index) => [session.path, formatSessionOption(session, index)]));
+	const sizes = new Map(
+		sessions.map((session) => {
+			try {
+				return [session.path, formatSize(statSync(session.path).size)];
+			} catch {
+				return [session.path, "?"];
 			}
+		}),
+	);
 
-			sessions.sort((a, b) => b.modified.getTime() - a.modified.getTime());
-			const selectedSession = await selectSessionToResume(sessions, ctx);
-			if (!selectedSession) {
-				transaction?.rollback();
-				ctx.ui.notify(`No session selected.${revertedSuffix}`, "info");
-				return;
-			}
+	return ctx.ui.custom<SessionInfo[] | undefined>((tui, theme, _kb, done) => {
+		const container = new Container();
+		container.addChild(new Text(theme.fg("accent", theme.bold(options.title)), 1, 0));
+		const filterText = new Text("", 1, 0);
+		container.addChild(filterText);
+		const list = new Container();
+		container.addChild(list);
+		container.addChild(new Spacer(1));
+		container.addChild(new Text(theme.fg("accent", theme.bold("Preview")), 1, 0));
+		const previewText = new Text("", 1, 0);
+		container.addChild(previewText);
+		container.addChild(new Spacer(1));
+		const toggleHint = options.multiple ? " • tab toggle" : "";
+		container.addChild(
+			new Text(theme.fg("dim", `type to filter • ↑↓ navigate${toggleHint} • enter select • esc cancel`), 1, 0),
+		);
 
-			const switchResult = await ctx.switchSession(selectedSession.path);
-			if (switchResult.cancelled) {
-				transaction?.rollback();
-				ctx.ui.notify(`Session switch cancelled.${revertedSuffix}`, "info");
+		const previewCache = new Map<string, string>();
+		let previewRequestId = 0;
+		let filter = "";
+		let visible: SessionInfo[] = sessions;
+		let selectList: SelectList | undefined;
+
+		const loadPreview = (path: string) => {
+			const cached = previewCache.get(path);
+			if (cached) {
+				previewText.setText(cached);
 				return;
 			}
 
-			transaction?.commit();
-			ctx.ui.notify(
-				linkNeeded
-					? `Linked to ${selectedFolder.name} and switched session.`
-					: "Switched session.",
-				"info",
-			);
+			const reqId = ++previewRequestId;
+			previewText.setText(theme.fg("muted", "(loading preview...)"));
+			void readSessionDetails(path)
+				.then((details) => formatTranscriptPreview(details, theme))
+				.catch((err) => theme.fg("warning", `(failed to load preview) ${err instanceof Error ? err.message : String(err)}`))
+				.then((text) => {
+					previewCache.set(path, text);
+					if (reqId !== previewRequestId) return;
+					previewText.setText(text);
+					tui.requestRender();
+				});
+		};
+
+		const label = (session: SessionInfo) =>
+			options.multiple ? `[${checked.has(session.path) ? "x" : " "}] ${labels.get(session.path)}` : labels.get(session.path)!;
+
+		const rebuildList = () => {
+			const selectedPath = selectList?.getSelectedItem()?.value;
+			visible = filterSessions(sessions, filter);
+			filterText.setText(filter ? `Filter: ${filter}` : theme.fg("dim", "Filter: (type to filter)"));
+
+			list.clear();
+			if (visible.length === 0) {
+				selectList = undefined;
+				list.addChild(new Text(theme.fg("warning", "No matching sessions"), 1, 0));
+				previewText.setText("");
+				return;
+			}
+
+			const items: SelectItem[] = visible.map((session) => ({
+				value: session.path,
+				label: label(session),
+				description: `${session.cwd ? shortenPath(session.cwd) : "(unknown cwd)"} • ${sizes.get(session.path)}`,
+			}));
+			selectList = new SelectList(items, Math.min(items.length, 10), {
+				selectedPrefix: (text) => theme.fg("accent", text),
+				selectedText: (text) => theme.fg("accent", text),
+				description: (text) => theme.fg("muted", text),
+				scrollInfo: (text) => theme.fg("dim", text),
+				noMatch: (text) => theme.fg("warning", text),
+			});
+			const keep = items.findIndex((item) => item.value === selectedPath);
+			if (keep > 0) selectList.setSelectedIndex(keep);
+
+			selectList.onSelectionChange = (item) => loadPreview(item.value);
+			selectList.onSelect = (item) => {
+				// Enter without any checked sessions picks the highlighted one.
+				const paths = checked.size > 0 ? [...checked] : [item.value];
+				done(sessions.filter((session) => paths.includes(session.path)));
+			};
+			selectList.onCancel = () => done(undefined);
+			list.addChild(selectList);
+
+			const highlighted = selectList.getSelectedItem();
+			if (highlighted) loadPreview(highlighted.value);
+		};
+
+		rebuildList();
+
+		return {
+			render(width: number) {
+				return container.render(width);
+			},
+			invalidate() {
+				container.invalidate();
+			},
+			handleInput(data: string) {
+				if (options.multiple && matchesKey(data, "tab")) {
+					const item = selectList?.getSelectedItem();
+					if (item) {
+						if (checked.has(item.value)) {
+							checked.delete(item.value);
+						} else {
+							checked.add(item.value);
+						}
+						const session = visible.find((candidate) => candidate.path === item.value);
+						if (session) item.label = label(session);
+					}
+				} else if (matchesKey(data, "backspace")) {
+					filter = filter.slice(0, -1);
+					rebuildList();
+				} else if (data.length === 1 && data >= " " && data !== "\x7f") {
+					filter += data;
+					rebuildList();
+				} else if (selectList) {
+					selectList.handleInput(data);
+				} else if (matchesKey(data, "escape")) {
+					done(undefined);
+				}
+				tui.requestRender();
+			},
+		};
+	});
+}
+
+async function selectSessionToResume(sessions: SessionInfo[], ctx: ExtensionCommandContext): Promise<SessionInfo | undefined> {
+	const selected = await selectSessionsWithPreview(ctx, sessions, { title: "Select session to resume" });
+	return selected?.[0];
+}
+
+async function selectSessionsToAdopt(
+	ctx: ExtensionCommandContext,
+	folderName: string,
+	sessions: SessionInfo[],
+): Promise<SessionInfo[] | undefined> {
+	return selectSessionsWithPreview(ctx, sessions, { title: `Adopt sessions from ${folderName}`, multiple: true });
+}
+
+async function selectAdoptMode(ctx: ExtensionCommandContext, newIds: boolean): Promise<{ mode: AdoptMode; newIds: boolean } | undefined> {
+	const options: Array<[string, AdoptMode, boolean]> = [
+		["Copy them (same session ids)", "copy", false],
+		["Copy them with new session ids, so both copies can grow", "copy", true],
+		["Move them here", "move", false],
+		["Symlink each file here", "symlink", false],
+	];
+	const available = newIds ? options.filter(([, , optionNewIds]) => optionNewIds) : options;
+
+	const selected = await ctx.ui.select("How should the sessions be adopted?", available.map(([label]) => label));
+	const option = available.find(([label]) => label === selected);
+	return option ? { mode: option[1], newIds: option[2] } : undefined;
+}
+
+interface ResumeMessages {
+	newSession: string;
+	switched: string;
+	committed: string;
+}
+
+interface SessionSelection {
+	session?: string;
+	newSession?: boolean;
+	/** Rewrite the resumed session's recorded cwd without asking. */
+	rewriteCwd?: boolean;
+	/** Leave the recorded cwd alone without asking. */
+	keepCwd?: boolean;
+}
+
+function report(ctx: ExtensionCommandContext, message: string, level: "info" | "warning" | "error" = "info"): void {
+	if (ctx.hasUI) {
+		ctx.ui.notify(message, level);
+		return;
+	}
+	if (level === "info") {
+		console.log(message);
+	} else {
+		console.error(message);
+	}
+}
+
+/** Subcommands that never change a session folder and so don't take the sessions root lock. */
+const READ_ONLY_SUBCOMMANDS = new Set<string>(["history", "status", "export"]);
+
+/** Warns when another pi process has a session open in the folder that is about to be moved aside. */
+function describeOtherSessionsInFolder(sessionsRoot: string, sessionDir: string): string | undefined {
+	const others = findOtherSessionsInFolder(sessionsRoot, sessionDir);
+	return others.length > 0 ? describeOtherSessions(others) : undefined;
+}
+
+/**
+ * Rewrites the recorded cwd of a session about to be resumed when it was recorded under another path,
+ * depending on the `rewriteSessionCwd` setting. Returns the rewrite so it can be rolled back with the link.
+ * Sessions in a mirrored folder are left alone.
+ */
+async function rewriteSessionCwd(
+	ctx: ExtensionCommandContext,
+	session: SessionInfo,
+	force: boolean,
+): Promise<LinkTransaction | undefined> {
+	let config: LinkSessionsConfig;
+	try {
+		config = loadConfig(getConfigPath());
+	} catch {
+		config = defaultConfig();
+	}
+
+	const mode = force ? "always" : config.rewriteSessionCwd;
+	if (mode === "never") return undefined;
+
+	const cwd = resolveSessionCwd(session.cwd, ctx.cwd, config.pathMappings);
+	if (!cwd) return undefined;
+	if (readMirrorMarker(dirname(session.path))) {
+		report(
+			ctx,
+			`This session was recorded in ${session.cwd}. Its cwd is kept: the folder is a mirror, and rewriting it would stop the session from syncing.`,
+			force ? "warning" : "info",
+		);
+		return undefined;
+	}
+
+	if (mode === "ask") {
+		if (!ctx.hasUI) return undefined;
+		const confirmed = await ctx.ui.confirm(
+			"Session recorded under another path",
+			`This session was recorded in ${session.cwd}. Rewrite its cwd to ${cwd} before resuming?`,
+		);
+		if (!confirmed) return undefined;
+	}
+
+	return createSessionCwdTransaction(session.path, cwd);
+}
+
+async function resumeInCurrentFolder(
+	ctx: ExtensionCommandContext,
+	currentSessionDir: string,
+	transaction: LinkTransaction | undefined,
+	messages: ResumeMessages,
+	selection: SessionSelection = {},
+): Promise<void> {
+	const revertedSuffix = transaction ? " Changes reverted." : "";
+
+	const startNewSession = async () => {
+		const result = await ctx.newSession();
+		if (result.cancelled) {
+			transaction?.rollback();
+			report(ctx, `Session creation cancelled.${revertedSuffix}`);
+			return;
+		}
+
+		transaction?.commit();
+		report(ctx, messages.newSession);
+	};
+
+	const switchTo = async (session: SessionInfo) => {
+		const cwdTransaction = selection.keepCwd ? undefined : await rewriteSessionCwd(ctx, session, selection.rewriteCwd ?? false);
+		let switchResult: { cancelled: boolean };
+		try {
+			switchResult = await ctx.switchSession(session.path);
+		} catch (err) {
+			cwdTransaction?.rollback();
+			throw err;
+		}
+		if (switchResult.cancelled) {
+			cwdTransaction?.rollback();
+			transaction?.rollback();
+			report(ctx, `Session switch cancelled.${revertedSuffix}`);
+			return;
+		}
+
+		cwdTransaction?.commit();
+		transaction?.commit();
+		report(ctx, messages.switched);
+	};
+
+	try {
+		if (selection.newSession) {
+			await startNewSession();
+			return;
+		}
+
+		const sessions = await SessionManager.list(ctx.cwd, currentSessionDir);
+
+		if (selection.session) {
+			const session = findSessionByQuery(sessions, selection.session);
+			if (!session) {
+				transaction?.rollback();
+				report(ctx, `No session matches "${selection.session}".${revertedSuffix}`, "error");
+				return;
+			}
+			await switchTo(session);
+			return;
+		}
+
+		if (!ctx.hasUI) {
+			transaction?.commit();
+			report(ctx, messages.committed);
+			return;
+		}
+
+		if (sessions.length === 0) {
+			const createNew = await ctx.ui.confirm(
+				"No sessions found",
+				"Create a new session in this folder now?",
+			);
+
+			if (!createNew) {
+				transaction?.rollback();
+				ctx.ui.notify(`No session selected.${revertedSuffix}`, "info");
+				return;
+			}
+
+			await startNewSession();
+			return;
+		}
+
+		sessions.sort((a, b) => b.modified.getTime() - a.modified.getTime());
+		const selectedSession = await selectSessionToResume(sessions, ctx);
+		if (!selectedSession) {
+			transaction?.rollback();
+			ctx.ui.notify(`No session selected.${revertedSuffix}`, "info");
+			return;
+		}
+
+		await switchTo(selectedSession);
+	} catch (err) {
+		transaction?.rollback();
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, `Failed to complete session switch: ${message}`, "error");
+	}
+}
+
+function describeDryRun(
+	currentFolderName: string,
+	currentKind: PathKind,
+	sessionCount: number,
+	selectedFolder: FolderChoice,
+	options: LinkCommandArgs,
+	plan: LinkPlan | undefined,
+): string {
+	const lines = ["Dry run: no files were changed."];
+
+	if (selectedFolder.isCurrent) {
+		lines.push(`- ${currentFolderName} is already the current folder; nothing to link.`);
+	} else {
+		if (currentKind === "directory" && sessionCount > 1 && !options.merge && !options.replace) {
+			lines.push(`- ${currentFolderName} contains ${sessionCount} sessions: --merge or --replace is required.`);
+		}
+		if (plan) lines.push(formatLinkPlan(plan));
+	}
+
+	if (options.newSession) {
+		lines.push("- Start a new session.");
+	} else if (options.session) {
+		lines.push(`- Switch to session "${options.session}".`);
+	}
+
+	return lines.join("\n");
+}
+
+async function selectExistingSessionsStrategy(
+	ctx: ExtensionCommandContext,
+	currentFolderName: string,
+	targetFolderName: string,
+	sessionCount: number,
+): Promise<"merge" | "replace" | undefined> {
+	const mergeOption = `Merge ${sessionCount} sessions into ${targetFolderName}, then link`;
+	const replaceOption = `Move ${sessionCount} sessions to the trash, then link`;
+	const cancelOption = "Cancel";
+
+	const selected = await ctx.ui.select(
+		`${currentFolderName} is not a symlink and contains ${sessionCount} sessions`,
+		[mergeOption, replaceOption, cancelOption],
+	);
+
+	if (selected === mergeOption) return "merge";
+	if (selected !== replaceOption) return undefined;
+
+	const destructiveConfirmed = await ctx.ui.confirm(
+		"Replace sessions?",
+		`The current session folder (${currentFolderName}) is not a symlink and contains ${sessionCount} sessions. Continuing moves these sessions to the trash, where /link-sessions trash can restore them. Continue?`,
+	);
+	return destructiveConfirmed ? "replace" : undefined;
+}
+
+async function selectUnlinkMode(
+	ctx: ExtensionCommandContext,
+	folderName: string,
+	targetLabel: string,
+	mirrored: boolean,
+): Promise<UnlinkMode | undefined> {
+	const options: Array<[string, UnlinkMode]> = mirrored
+		? [
+				["Start with an empty folder", "empty"],
+				["Keep the copied sessions", "copy"],
+			]
+		: [
+				["Start with an empty folder", "empty"],
+				[`Copy sessions from ${targetLabel}`, "copy"],
+				[`Move sessions out of ${targetLabel}`, "move"],
+			];
+
+	const selected = await ctx.ui.select(`Unlink: what should ${folderName} contain?`, options.map(([label]) => label));
+	if (!selected) return undefined;
+
+	return options.find(([label]) => label === selected)?.[1];
+}
+
+async function showHistory(
+	ctx: ExtensionCommandContext,
+	journalPath: string,
+	currentSessionDir: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	const entries = readJournal(journalPath).reverse();
+	if (entries.length === 0) {
+		report(ctx, "No link history yet.");
+		return;
+	}
+
+	const lines = entries.map((entry, index) => formatJournalEntry(entry, index));
+	if (!ctx.hasUI) {
+		report(ctx, lines.join("\n"));
+		return;
+	}
+
+	const selected = await ctx.ui.select("Link history (select an entry to undo it)", lines);
+	if (!selected) return;
+
+	const index = lines.indexOf(selected);
+	await undoJournalEntry(ctx, journalPath, currentSessionDir, { ...options, subcommandArgs: [String(index + 1)] });
+}
+
+async function undoJournalEntry(
+	ctx: ExtensionCommandContext,
+	journalPath: string,
+	currentSessionDir: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	const position = options.subcommandArgs[0] ? Number(options.subcommandArgs[0]) : 1;
+	if (!Number.isInteger(position) || position < 1) {
+		report(ctx, `Invalid history entry: ${options.subcommandArgs[0]}`, "error");
+		return;
+	}
+
+	const entries = readJournal(journalPath).reverse();
+	const entry = entries[position - 1];
+	if (!entry) {
+		report(ctx, `No history entry #${position}.`, "error");
+		return;
+	}
+
+	const description = formatJournalEntry(entry, position - 1);
+	if (!options.yes) {
+		if (!ctx.hasUI) {
+			report(ctx, "Pass --yes to undo in non-interactive mode.", "error");
+			return;
+		}
+		const confirmed = await ctx.ui.confirm("Undo link change?", description);
+		if (!confirmed) {
+			ctx.ui.notify("Undo cancelled.", "info");
+			return;
+		}
+	}
+
+	let transaction: LinkTransaction;
+	try {
+		const change = describeUndoChange(entry);
+		transaction = journalTransaction(createUndoTransaction(entry), journalPath, change);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, `Cannot undo #${position}: ${message}`, "error");
+		return;
+	}
+
+	if (resolve(entry.currentDir) !== resolve(currentSessionDir)) {
+		transaction.commit();
+		report(ctx, `Undid #${position} for ${basename(entry.currentDir)}.`);
+		return;
+	}
+
+	await resumeInCurrentFolder(
+		ctx,
+		currentSessionDir,
+		transaction,
+		{
+			newSession: `Undid #${position}. Started a new session.`,
+			switched: `Undid #${position} and switched session.`,
+			committed: `Undid #${position}.`,
+		},
+		{ session: options.session, newSession: options.newSession, rewriteCwd: options.rewriteCwd },
+	);
+}
+
+/** Backups younger than this may belong to a link that is still waiting for the user. */
+const ORPHANED_BACKUP_MIN_AGE_MS = 10 * 60_000;
+
+function formatBackupOption(backup: BackupInfo, index: number): string {
+	const sessionsText = `${backup.sessionCount} session${backup.sessionCount === 1 ? "" : "s"}`;
+	const recent = Date.now() - backup.createdAt.getTime() < ORPHANED_BACKUP_MIN_AGE_MS ? " (may belong to a running link)" : "";
+	return `${index + 1}. ${backup.name} — ${backup.kind}, ${sessionsText}, ${formatAge(backup.createdAt)} old; ${backup.originalName} is ${backup.originalKind}${recent}`;
+}
+
+async function applyBackupAction(
+	ctx: ExtensionCommandContext,
+	backup: BackupInfo,
+	action: "restore" | "discard",
+	journalPath: string,
+	currentSessionDir: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	if (action === "discard") {
+		const trashPath = disposeBackup(backup.path, backup.originalPath);
+		report(ctx, trashPath ? `Moved ${backup.name} to the trash.` : `Discarded ${backup.name}.`);
+		return;
+	}
+
+	let transaction: LinkTransaction;
+	try {
+		const previous = describePathState(backup.originalPath);
+		transaction = journalTransaction(restoreOrphanedBackup(backup), journalPath, {
+			action: "recover",
+			currentDir: backup.originalPath,
+			previous,
+		});
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, `Cannot restore ${backup.name}: ${message}`, "error");
+		return;
+	}
+
+	if (resolve(backup.originalPath) !== resolve(currentSessionDir)) {
+		transaction.commit();
+		report(ctx, `Restored ${backup.name} into ${backup.originalName}.`);
+		return;
+	}
+
+	await resumeInCurrentFolder(
+		ctx,
+		currentSessionDir,
+		transaction,
+		{
+			newSession: `Restored ${backup.name}. Started a new session.`,
+			switched: `Restored ${backup.name} and switched session.`,
+			committed: `Restored ${backup.name} into ${backup.originalName}.`,
+		},
+		{ session: options.session, newSession: options.newSession, rewriteCwd: options.rewriteCwd },
+	);
+}
+
+async function recoverBackups(
+	ctx: ExtensionCommandContext,
+	sessionsRoot: string,
+	journalPath: string,
+	currentSessionDir: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	const [actionArg, positionArg] = options.subcommandArgs;
+
+	if (!ctx.hasUI || actionArg) {
+		const backups = findOrphanedBackups(sessionsRoot);
+		if (!actionArg) {
+			report(ctx, backups.length === 0 ? "No interrupted link backups found." : backups.map(formatBackupOption).join("\n"));
+			return;
+		}
+
+		if (actionArg !== "restore" && actionArg !== "discard") {
+			report(ctx, `Unknown recover action: ${actionArg}. Use restore or discard.`, "error");
+			return;
+		}
+		const backup = backups[Number(positionArg) - 1];
+		if (!backup) {
+			report(ctx, `No backup #${positionArg ?? ""}.`, "error");
+			return;
+		}
+		if (!options.yes) {
+			report(ctx, `Pass --yes to ${actionArg} ${backup.name}.`, "error");
+			return;
+		}
+		await applyBackupAction(ctx, backup, actionArg, journalPath, currentSessionDir, options);
+		return;
+	}
+
+	for (;;) {
+		const backups = findOrphanedBackups(sessionsRoot);
+		if (backups.length === 0) {
+			ctx.ui.notify("No interrupted link backups found.", "info");
+			return;
+		}
+
+		const lines = backups.map(formatBackupOption);
+		const selected = await ctx.ui.select("Interrupted link backups", lines);
+		if (!selected) return;
+		const backup = backups[lines.indexOf(selected)];
+
+		const restoreOption =
+			backup.originalKind === "directory"
+				? `Merge its sessions into ${backup.originalName}`
+				: `Restore it as ${backup.originalName}`;
+		const discardOption =
+			backup.sessionCount > 0 ? `Discard it (moves ${backup.sessionCount} sessions to the trash)` : "Discard it";
+		const action = await ctx.ui.select(backup.name, [restoreOption, discardOption, "Leave it"]);
+
+		if (action === restoreOption) {
+			await applyBackupAction(ctx, backup, "restore", journalPath, currentSessionDir, options);
+			if (resolve(backup.originalPath) === resolve(currentSessionDir)) return;
+		} else if (action === discardOption) {
+			await applyBackupAction(ctx, backup, "discard", journalPath, currentSessionDir, options);
+		}
+	}
+}
+
+function formatTrashOption(entry: TrashEntry, index: number): string {
+	const sessionsText = `${entry.sessionCount} session${entry.sessionCount === 1 ? "" : "s"}`;
+	return `${index + 1}. ${entry.originalName} — ${sessionsText}, ${formatSize(entry.size)}, trashed ${formatAge(entry.trashedAt)} ago; ${entry.originalName} is ${entry.originalKind}`;
+}
+
+async function restoreTrashEntry(
+	ctx: ExtensionCommandContext,
+	entry: TrashEntry,
+	journalPath: string,
+	currentSessionDir: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	let transaction: LinkTransaction;
+	try {
+		const previous = describePathState(entry.originalPath);
+		transaction = journalTransaction(createTrashRestoreTransaction(entry), journalPath, {
+			action: "recover",
+			currentDir: entry.originalPath,
+			previous,
+		});
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, `Cannot restore ${entry.originalName}: ${message}`, "error");
+		return;
+	}
+
+	if (resolve(entry.originalPath) !== resolve(currentSessionDir)) {
+		transaction.commit();
+		report(ctx, `Restored ${entry.originalName} from the trash.`);
+		return;
+	}
+
+	await resumeInCurrentFolder(
+		ctx,
+		currentSessionDir,
+		transaction,
+		{
+			newSession: `Restored ${entry.originalName} from the trash. Started a new session.`,
+			switched: `Restored ${entry.originalName} from the trash and switched session.`,
+			committed: `Restored ${entry.originalName} from the trash.`,
+		},
+		{ session: options.session, newSession: options.newSession, rewriteCwd: options.rewriteCwd },
+	);
+}
+
+async function manageTrash(
+	ctx: ExtensionCommandContext,
+	sessionsRoot: string,
+	journalPath: string,
+	currentSessionDir: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	const [actionArg, positionArg] = options.subcommandArgs;
+
+	if (!ctx.hasUI || actionArg) {
+		const entries = listTrash(sessionsRoot);
+		if (!actionArg) {
+			report(ctx, entries.length === 0 ? "The trash is empty." : entries.map(formatTrashOption).join("\n"));
+			return;
+		}
+
+		if (actionArg !== "restore" && actionArg !== "purge") {
+			report(ctx, `Unknown trash action: ${actionArg}. Use restore or purge.`, "error");
+			return;
+		}
+		const selected = actionArg === "purge" && positionArg === "all" ? entries : [entries[Number(positionArg) - 1]];
+		const [entry] = selected;
+		if (!entry) {
+			report(ctx, positionArg === "all" ? "The trash is empty." : `No trash entry #${positionArg ?? ""}.`, "error");
+			return;
+		}
+
+		const description =
+			actionArg === "restore"
+				? `Restore ${entry.originalName} from the trash?`
+				: `Permanently delete ${selected.length === 1 ? entry.originalName : `all ${selected.length} folders`} from the trash?`;
+		if (!options.yes) {
+			if (!ctx.hasUI) {
+				report(ctx, `Pass --yes to ${actionArg} ${positionArg === "all" ? "the trash" : entry.originalName}.`, "error");
+				return;
+			}
+			if (!(await ctx.ui.confirm(actionArg === "restore" ? "Restore folder?" : "Purge trash?", description))) {
+				ctx.ui.notify("Nothing was changed.", "info");
+				return;
+			}
+		}
+
+		if (actionArg === "restore") {
+			await restoreTrashEntry(ctx, entry, journalPath, currentSessionDir, options);
+			return;
+		}
+		for (const purged of selected) {
+			purgeTrashEntry(purged);
+		}
+		report(ctx, `Purged ${selected.length} folder${selected.length === 1 ? "" : "s"} from the trash.`);
+		return;
+	}
+
+	for (;;) {
+		const entries = listTrash(sessionsRoot);
+		if (entries.length === 0) {
+			ctx.ui.notify("The trash is empty.", "info");
+			return;
+		}
+
+		const lines = entries.map(formatTrashOption);
+		const selected = await ctx.ui.select("Trash", lines);
+		if (!selected) return;
+		const entry = entries[lines.indexOf(selected)];
+
+		const restoreOption =
+			entry.originalKind === "directory"
+				? `Merge its sessions into ${entry.originalName}`
+				: `Restore it as ${entry.originalName}`;
+		const purgeOption = `Purge it (permanently deletes ${entry.sessionCount} sessions)`;
+		const action = await ctx.ui.select(entry.originalName, [restoreOption, purgeOption, "Leave it"]);
+
+		if (action === restoreOption) {
+			await restoreTrashEntry(ctx, entry, journalPath, currentSessionDir, options);
+			if (resolve(entry.originalPath) === resolve(currentSessionDir)) return;
+		} else if (action === purgeOption) {
+			const confirmed = await ctx.ui.confirm("Purge from trash?", `Permanently delete ${entry.path}?`);
+			if (confirmed) {
+				purgeTrashEntry(entry);
+				ctx.ui.notify(`Purged ${entry.originalName} from the trash.`, "info");
+			}
+		}
+	}
+}
+
+function describeGcReasons(candidate: GcCandidate): string {
+	return candidate.reasons
+		.map((reason) => {
+			switch (reason) {
+				case "missing-cwd":
+					return `cwd ${shortenPath(candidate.folder.cwd)} is missing`;
+				case "empty":
+					return "no sessions";
+				case "stale":
+					return `idle for ${formatAge(candidate.folder.lastActivity!)}`;
+			}
+		})
+		.join(", ");
+}
+
+function formatGcCandidate(candidate: GcCandidate, index: number): string {
+	const { folder } = candidate;
+	const sessionsText = `${folder.sessionCount} session${folder.sessionCount === 1 ? "" : "s"}`;
+	return `${index + 1}. ${folder.name} — ${sessionsText}, ${formatSize(folder.size)}; ${describeGcReasons(candidate)}`;
+}
+
+/** Empty folders have nothing to archive, so they are always moved to the trash. */
+function getGcAction(candidate: GcCandidate, requested: GcAction): GcAction {
+	return candidate.folder.sessionCount === 0 ? "delete" : requested;
+}
+
+function describeGcDecision(candidate: GcCandidate, action: GcAction): string {
+	return action === "archive"
+		? `Archive ${candidate.folder.name} to a bundle, then move it to the trash`
+		: `Move ${candidate.folder.name} to the trash`;
+}
+
+function applyGcDecisions(
+	ctx: ExtensionCommandContext,
+	decisions: { candidate: GcCandidate; action: GcAction }[],
+	journalPath: string,
+	archiveDir: string,
+	leftCount: number,
+): void {
+	let archived = 0;
+	let trashed = 0;
+	const failures: string[] = [];
+	for (const { candidate, action } of decisions) {
+		const { folder } = candidate;
+		try {
+			const previous = describePathState(folder.path);
+			journalTransaction(createGcTransaction(folder, action, archiveDir), journalPath, {
+				action: "gc",
+				currentDir: folder.path,
+				previous,
+			}).commit();
+			if (action === "archive") archived += 1;
+			else trashed += 1;
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			failures.push(`${folder.name}: ${message}`);
+		}
+	}
+
+	const summary = [`Archived ${archived}, moved ${trashed} to the trash, left ${leftCount}.`];
+	if (archived > 0) summary.push(`Archives are in ${shortenPath(archiveDir)}.`);
+	report(ctx, [...summary, ...failures].join("\n"), failures.length > 0 ? "warning" : "info");
+}
+
+async function collectGarbage(
+	ctx: ExtensionCommandContext,
+	sessionsRoot: string,
+	journalPath: string,
+	currentSessionDir: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	const [actionArg, positionArg] = options.subcommandArgs;
+	let config: LinkSessionsConfig;
+	try {
+		config = loadConfig(getConfigPath());
+	} catch {
+		config = defaultConfig();
+	}
+
+	// Folders with a session open in another pi process are still in use, however old they look.
+	const candidates = findGcCandidates(collectFolderStats(sessionsRoot), {
+		staleDays: config.gcStaleDays,
+		keep: [currentSessionDir],
+	}).filter((candidate) => findOtherSessionsInFolder(sessionsRoot, candidate.folder.path).length === 0);
+	const archiveDir = join(getAgentDir(), GC_ARCHIVE_DIR_NAME);
+
+	if (candidates.length === 0) {
+		report(ctx, "No abandoned session folders found.");
+		return;
+	}
+
+	if (!ctx.hasUI || actionArg || options.dryRun) {
+		if (!actionArg) {
+			report(ctx, candidates.map(formatGcCandidate).join("\n"));
+			return;
+		}
+		if (actionArg !== "archive" && actionArg !== "delete") {
+			report(ctx, `Unknown gc action: ${actionArg}. Use archive or delete.`, "error");
+			return;
+		}
+		const selected = positionArg === "all" ? candidates : [candidates[Number(positionArg) - 1]];
+		if (!selected[0]) {
+			report(ctx, `No gc candidate #${positionArg ?? ""}.`, "error");
+			return;
+		}
+		const decisions = selected.map((candidate) => ({ candidate, action: getGcAction(candidate, actionArg) }));
+		if (options.dryRun) {
+			report(ctx, decisions.map(({ candidate, action }) => `- ${describeGcDecision(candidate, action)}`).join("\n"));
+			return;
+		}
+		if (!options.yes) {
+			const subject = positionArg === "all" ? `${selected.length} folders` : selected[0].folder.name;
+			report(ctx, `Pass --yes to ${actionArg} ${subject}.`, "error");
+			return;
+		}
+		applyGcDecisions(ctx, decisions, journalPath, archiveDir, candidates.length - selected.length);
+		return;
+	}
+
+	const decisions: { candidate: GcCandidate; action: GcAction }[] = [];
+	for (const [index, candidate] of candidates.entries()) {
+		const archiveOption = `Archive its ${candidate.folder.sessionCount} sessions, then move it to the trash`;
+		const trashOption = "Move it to the trash";
+		const leaveRestOption = "Leave it and all remaining folders";
+		const choices = [
+			...(candidate.folder.sessionCount > 0 ? [archiveOption] : []),
+			trashOption,
+			"Leave it",
+			leaveRestOption,
+		];
+		const selected = await ctx.ui.select(formatGcCandidate(candidate, index), choices);
+		if (!selected) {
+			ctx.ui.notify("Nothing was changed.", "info");
+			return;
+		}
+		if (selected === leaveRestOption) break;
+		if (selected === archiveOption) decisions.push({ candidate, action: "archive" });
+		else if (selected === trashOption) decisions.push({ candidate, action: "delete" });
+	}
+
+	if (decisions.length === 0) {
+		ctx.ui.notify("Nothing was changed.", "info");
+		return;
+	}
+
+	const description = [
+		...decisions.map(({ candidate, action }) => `- ${describeGcDecision(candidate, action)}`),
+		"",
+		"Trashed folders can be restored with /link-sessions undo or /link-sessions trash.",
+	].join("\n");
+	if (!(await ctx.ui.confirm("Clean up session folders?", description))) {
+		ctx.ui.notify("Nothing was changed.", "info");
+		return;
+	}
+	applyGcDecisions(ctx, decisions, journalPath, archiveDir, candidates.length - decisions.length);
+}
+
+function applyDoctorFix(issue: DoctorIssue, journalPath: string): string | undefined {
+	try {
+		const previous = describePathState(issue.path);
+		journalTransaction(createDoctorFixTransaction(issue), journalPath, {
+			action: "repair",
+			currentDir: issue.path,
+			previous,
+		}).commit();
+		return undefined;
+	} catch (err) {
+		return err instanceof Error ? err.message : String(err);
+	}
+}
+
+function applyDoctorFixes(ctx: ExtensionCommandContext, issues: DoctorIssue[], journalPath: string): void {
+	const failures: string[] = [];
+	for (const issue of issues) {
+		const error = applyDoctorFix(issue, journalPath);
+		if (error) failures.push(`${issue.name}: ${error}`);
+	}
+
+	const fixed = issues.length - failures.length;
+	report(
+		ctx,
+		[`Fixed ${fixed} of ${issues.length} issue${issues.length === 1 ? "" : "s"}.`, ...failures].join("\n"),
+		failures.length > 0 ? "warning" : "info",
+	);
+}
+
+async function runDoctor(
+	ctx: ExtensionCommandContext,
+	sessionsRoot: string,
+	journalPath: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	const [actionArg] = options.subcommandArgs;
+
+	if (!ctx.hasUI || actionArg) {
+		const issues = diagnoseSessionsRoot(sessionsRoot);
+		if (issues.length === 0) {
+			report(ctx, "No link problems found.");
+			return;
+		}
+		if (actionArg !== "fix") {
+			if (actionArg) {
+				report(ctx, `Unknown doctor action: ${actionArg}. Use fix.`, "error");
+				return;
+			}
+			report(ctx, issues.map((issue) => `- ${describeDoctorIssue(issue)} (fix: ${describeDoctorFix(issue.fix)})`).join("\n"));
+			return;
+		}
+		if (!options.yes) {
+			report(ctx, `Pass --yes to fix ${issues.length} issue${issues.length === 1 ? "" : "s"}.`, "error");
+			return;
+		}
+		applyDoctorFixes(ctx, issues, journalPath);
+		return;
+	}
+
+	for (;;) {
+		// Fixing one issue can resolve or change others, so diagnose again after every fix.
+		const issues = diagnoseSessionsRoot(sessionsRoot);
+		if (issues.length === 0) {
+			ctx.ui.notify("No link problems found.", "info");
+			return;
+		}
+
+		const fixAll = `Fix all ${issues.length} issue${issues.length === 1 ? "" : "s"}`;
+		const lines = issues.map((issue) => `${describeDoctorIssue(issue)} — enter: ${describeDoctorFix(issue.fix)}`);
+		const selected = await ctx.ui.select("Link doctor", [fixAll, ...lines]);
+		if (!selected) return;
+
+		if (selected === fixAll) {
+			applyDoctorFixes(ctx, issues, journalPath);
+			return;
+		}
+		applyDoctorFixes(ctx, [issues[lines.indexOf(selected)]], journalPath);
+	}
+}
+
+async function relativizeLinks(
+	ctx: ExtensionCommandContext,
+	sessionsRoot: string,
+	journalPath: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	if (options.subcommandArgs.length > 0) {
+		report(ctx, `Unexpected argument: ${options.subcommandArgs[0]}\n${LINK_USAGE}`, "error");
+		return;
+	}
+
+	const links = findAbsoluteLinks(sessionsRoot);
+	if (links.length === 0) {
+		report(ctx, "No absolute links found.");
+		return;
+	}
+
+	const plural = links.length === 1 ? "" : "s";
+	const lines = links.map((link) => `- ${link.name} → ${link.relativeTarget}`);
+	if (options.dryRun) {
+		report(ctx, ["Dry run: no files were changed.", `Would rewrite ${links.length} link${plural}:`, ...lines].join("\n"));
+		return;
+	}
+
+	if (!options.yes) {
+		if (!ctx.hasUI) {
+			report(ctx, `Pass --yes to rewrite ${links.length} absolute link${plural} as relative links.`, "error");
+			return;
+		}
+		const confirmed = await ctx.ui.confirm(
+			"Rewrite links as relative?",
+			[`Rewrite ${links.length} absolute link${plural}:`, ...lines].join("\n"),
+		);
+		if (!confirmed) {
+			ctx.ui.notify("Relativize cancelled.", "info");
+			return;
+		}
+	}
+
+	const previous = links.map((link) => describePathState(link.path));
+	try {
+		createRelativeLinksTransaction(links).commit();
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, `Failed to rewrite links; all links were restored: ${message}`, "error");
+		return;
+	}
+
+	links.forEach((link, index) => {
+		try {
+			appendJournalEntry(
+				journalPath,
+				createJournalEntry({ action: "relativize", currentDir: link.path, previous: previous[index] }),
+			);
+		} catch {
+			// the links were rewritten; a missing entry only limits history and undo
+		}
+	});
+	report(ctx, `Rewrote ${links.length} link${plural} as relative links.`);
+}
+
+async function adoptSessions(
+	ctx: ExtensionCommandContext,
+	sessionsRoot: string,
+	currentSessionDir: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	let mode: AdoptMode | undefined;
+	let folderQuery: string | undefined;
+	for (const arg of options.subcommandArgs) {
+		if (mode === undefined && folderQuery === undefined && (ADOPT_MODES as readonly string[]).includes(arg)) {
+			mode = arg as AdoptMode;
+		} else if (folderQuery === undefined) {
+			folderQuery = arg;
+		} else {
+			report(ctx, `Unexpected argument: ${arg}\n${LINK_USAGE}`, "error");
+			return;
+		}
+	}
+
+	if (!ctx.hasUI && (!folderQuery || !options.session || !options.yes)) {
+		report(ctx, "Pass a folder, --session and --yes to adopt sessions in non-interactive mode.", "error");
+		return;
+	}
+
+	const configPath = getConfigPath();
+	let config: LinkSessionsConfig;
+	try {
+		config = loadConfig(configPath);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, message, "error");
+		return;
+	}
+
+	const currentFolderName = basename(currentSessionDir);
+	const loadChoices = (loaded: LinkSessionsConfig, index?: SessionIndex): RootFolderChoices => {
+		const listed = listRootFolderChoices(sessionsRoot, loaded.extraRoots, currentFolderName, loaded.pathMappings, index);
+		return { ...listed, choices: listed.choices.filter((choice) => !choice.isCurrent) };
+	};
+
+	let picked: PickedFolder | undefined;
+	if (folderQuery) {
+		const matches = bestFolderMatches(loadChoices(config).choices, folderQuery);
+		if (matches.length === 1) {
+			picked = { folder: matches[0] };
+		} else if (matches.length === 0 || !ctx.hasUI) {
+			report(ctx, matches.length === 0 ? `No session folder matches "${folderQuery}".` : `"${folderQuery}" matches several folders.`, "error");
+			return;
+		} else {
+			const query = folderQuery;
+			picked = await pickFolder(
+				ctx,
+				(loaded, index) => {
+					const listed = loadChoices(loaded, index);
+					return { ...listed, choices: matchFolderChoices(listed.choices, query) };
+				},
+				configPath,
+			);
+		}
+	} else {
+		picked = await pickFolder(ctx, loadChoices, configPath);
+	}
+	if (!picked) {
+		report(ctx, "Adopt cancelled.");
+		return;
+	}
+	const { folder } = picked;
+	const sessionQuery = options.session ?? picked.sessionId;
+
+	const sessions = await SessionManager.list(ctx.cwd, folder.path);
+	if (sessions.length === 0) {
+		report(ctx, `${folder.name} has no sessions.`, "warning");
+		return;
+	}
+
+	let chosen: SessionInfo[] | undefined;
+	if (sessionQuery) {
+		const session = findSessionByQuery(sessions, sessionQuery);
+		if (!session) {
+			report(ctx, `No session in ${folder.name} matches "${sessionQuery}".`, "error");
+			return;
+		}
+		chosen = [session];
+	} else {
+		chosen = await selectSessionsToAdopt(ctx, folder.name, sessions);
+	}
+	if (!chosen || chosen.length === 0) {
+		report(ctx, "Adopt cancelled.");
+		return;
+	}
+
+	let newIds = options.newIds;
+	if (!mode) {
+		if (!ctx.hasUI) {
+			mode = "copy";
+		} else {
+			const selected = await selectAdoptMode(ctx, newIds);
+			if (!selected) {
+				ctx.ui.notify("Adopt cancelled.", "info");
+				return;
+			}
+			mode = selected.mode;
+			newIds = selected.newIds;
+		}
+	}
+
+	const sessionsText = `${chosen.length} session${chosen.length === 1 ? "" : "s"}`;
+	if (options.dryRun) {
+		report(ctx, `Dry run: no files were changed.\n- ${mode} ${sessionsText} from ${folder.name} into ${currentFolderName}${newIds ? " with new ids" : ""}.`);
+		return;
+	}
+	if (!options.yes) {
+		const confirmed = await ctx.ui.confirm("Adopt sessions?", `${mode} ${sessionsText} from ${folder.name} into ${currentFolderName}?`);
+		if (!confirmed) {
+			ctx.ui.notify("Adopt cancelled.", "info");
+			return;
+		}
+	}
+
+	let transaction: AdoptTransaction;
+	try {
+		transaction = createAdoptTransaction(
+			chosen.map((session) => session.path),
+			currentSessionDir,
+			mode,
+			{ newIds },
+		);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, `Failed to adopt sessions: ${message}`, "error");
+		return;
+	}
+
+	await resumeInCurrentFolder(
+		ctx,
+		currentSessionDir,
+		transaction,
+		{
+			newSession: `Adopted ${sessionsText}. Started a new session.`,
+			switched: `Adopted ${sessionsText} from ${folder.name} and switched session.`,
+			committed: `Adopted ${sessionsText} from ${folder.name}.`,
+		},
+		{ session: transaction.adopted[0]?.id, rewriteCwd: options.rewriteCwd },
+	);
+}
+
+function defaultBundleName(folderName: string): string {
+	const slug = folderName.replace(/^-+|-+$/g, "") || "sessions";
+	return `${slug}-${new Date().toISOString().slice(0, 10)}${BUNDLE_FILE_EXTENSION}`;
+}
+
+async function exportSessions(
+	ctx: ExtensionCommandContext,
+	sessionsRoot: string,
+	currentSessionDir: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	let folderQuery: string | undefined;
+	let outputPath: string | undefined;
+	for (const arg of options.subcommandArgs) {
+		if (outputPath === undefined && arg.endsWith(BUNDLE_FILE_EXTENSION)) {
+			outputPath = arg;
+		} else if (folderQuery === undefined) {
+			folderQuery = arg;
+		} else {
+			report(ctx, `Unexpected argument: ${arg}\n${LINK_USAGE}`, "error");
+			return;
+		}
+	}
+
+	const configPath = getConfigPath();
+	let config: LinkSessionsConfig;
+	try {
+		config = loadConfig(configPath);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, message, "error");
+		return;
+	}
+
+	const currentFolderName = basename(currentSessionDir);
+	const loadChoices = (loaded: LinkSessionsConfig, index?: SessionIndex) =>
+		listRootFolderChoices(sessionsRoot, loaded.extraRoots, currentFolderName, loaded.pathMappings, index);
+
+	let folder: FolderChoice | undefined;
+	if (folderQuery) {
+		const matches = bestFolderMatches(loadChoices(config).choices, folderQuery);
+		if (matches.length === 1) {
+			folder = matches[0];
+		} else if (matches.length === 0 || !ctx.hasUI) {
+			report(ctx, matches.length === 0 ? `No session folder matches "${folderQuery}".` : `"${folderQuery}" matches several folders.`, "error");
+			return;
+		} else {
+			const query = folderQuery;
+			folder = (
+				await pickFolder(
+					ctx,
+					(loaded, index) => {
+						const listed = loadChoices(loaded, index);
+						return { ...listed, choices: matchFolderChoices(listed.choices, query) };
+					},
+					configPath,
+				)
+			)?.folder;
+		}
+	} else if (ctx.hasUI) {
+		folder = (await pickFolder(ctx, loadChoices, configPath))?.folder;
+	} else {
+		folder = loadChoices(config).choices.find((choice) => choice.isCurrent);
+	}
+	if (!folder) {
+		report(ctx, "Export cancelled.");
+		return;
+	}
+
+	const sessions = await SessionManager.list(ctx.cwd, folder.path);
+	if (sessions.length === 0) {
+		report(ctx, `${folder.name} has no sessions.`, "warning");
+		return;
+	}
+
+	let chosen: SessionInfo[] | undefined = sessions;
+	if (options.session) {
+		const session = findSessionByQuery(sessions, options.session);
+		if (!session) {
+			report(ctx, `No session in ${folder.name} matches "${options.session}".`, "error");
+			return;
+		}
+		chosen = [session];
+	} else if (ctx.hasUI) {
+		const allOption = `All ${sessions.length} session${sessions.length === 1 ? "" : "s"}`;
+		const chooseOption = "Choose sessions...";
+		const selected = await ctx.ui.select(`Export from ${folder.name}`, [allOption, chooseOption]);
+		if (selected === chooseOption) {
+			chosen = await selectSessionsWithPreview(ctx, sessions, { title: `Export sessions from ${folder.name}`, multiple: true });
+		} else if (selected !== allOption) {
+			chosen = undefined;
+		}
+	}
+	if (!chosen || chosen.length === 0) {
+		report(ctx, "Export cancelled.");
+		return;
+	}
+
+	const bundlePath = resolve(ctx.cwd, outputPath ?? defaultBundleName(folder.name));
+	const sessionsText = `${chosen.length} session${chosen.length === 1 ? "" : "s"}`;
+	if (options.dryRun) {
+		report(ctx, `Dry run: no files were changed.\n- Export ${sessionsText} from ${folder.name} to ${shortenPath(bundlePath)}.`);
+		return;
+	}
+
+	try {
+		writeBundle(
+			chosen.map((session) => session.path),
+			bundlePath,
+			folder.name,
+		);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, `Failed to export sessions: ${message}`, "error");
+		return;
+	}
+	report(ctx, `Exported ${sessionsText} from ${folder.name} to ${shortenPath(bundlePath)}.`);
+}
+
+type ImportDestination = "current" | "new";
+
+function describeImportPlan(bundle: SessionBundle, plan: ImportPlan, targetName: string, newIds: boolean, cwd?: string): string {
+	const { manifest } = bundle;
+	const lines = [
+		`Bundle: ${manifest.sessions.length} session${manifest.sessions.length === 1 ? "" : "s"} from ${manifest.sourceFolder}${manifest.sourceCwd ? ` (${shortenPath(manifest.sourceCwd)})` : ""}, exported ${formatDateTime(new Date(manifest.createdAt))}`,
+		`- Import ${plan.added.length} new session${plan.added.length === 1 ? "" : "s"} into ${targetName}.`,
+	];
+	if (plan.present.length > 0) lines.push(`- Skip ${plan.present.length} already present.`);
+	if (plan.conflicts.length > 0) {
+		lines.push(
+			newIds
+				? `- Import ${plan.conflicts.length} conflicting session${plan.conflicts.length === 1 ? "" : "s"} with new ids.`
+				: `- Skip ${plan.conflicts.length} session${plan.conflicts.length === 1 ? "" : "s"} whose id exists with other contents (pass --new-ids to import them).`,
+		);
+	}
+	if (cwd) lines.push(`- Rewrite the recorded cwd to ${shortenPath(cwd)}.`);
+	return lines.join("\n");
+}
+
+async function importBundle(
+	ctx: ExtensionCommandContext,
+	sessionsRoot: string,
+	currentSessionDir: string,
+	options: LinkCommandArgs,
+): Promise<void> {
+	const [bundleArg, destinationArg, ...rest] = options.subcommandArgs;
+	if (!bundleArg || rest.length > 0 || (destinationArg !== undefined && destinationArg !== "current" && destinationArg !== "new")) {
+		report(ctx, `Usage: /link-sessions import <bundle${BUNDLE_FILE_EXTENSION}> [current|new]`, "error");
+		return;
+	}
+	if (!ctx.hasUI && !options.yes && !options.dryRun) {
+		report(ctx, "Pass --yes to import sessions in non-interactive mode.", "error");
+		return;
+	}
+
+	let bundle: SessionBundle;
+	let config: LinkSessionsConfig;
+	try {
+		bundle = readBundle(resolve(ctx.cwd, bundleArg));
+		config = loadConfig(getConfigPath());
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, `Failed to read bundle: ${message}`, "error");
+		return;
+	}
+
+	const currentFolderName = basename(currentSessionDir);
+	const { sourceFolder, sourceCwd } = bundle.manifest;
+	const newFolderName = mapFolderName(sourceFolder, config.pathMappings) ?? sourceFolder;
+
+	let destination = destinationArg as ImportDestination | undefined;
+	if (!destination && ctx.hasUI && newFolderName && newFolderName !== currentFolderName) {
+		const currentOption = `Into the current folder (${currentFolderName})`;
+		const newOption = `Into its own folder (${newFolderName})`;
+		const selected = await ctx.ui.select("Where should the sessions go?", [currentOption, newOption]);
+		if (!selected) {
+			ctx.ui.notify("Import cancelled.", "info");
+			return;
+		}
+		destination = selected === newOption ? "new" : "current";
+	}
+	// The folder name comes from the bundle; only accept names shaped like pi's encoded folders.
+	if (destination === "new" && !/^--[^/\\]+--$/.test(newFolderName)) {
+		report(ctx, "The bundle does not name a source folder; import it into the current folder instead.", "error");
+		return;
+	}
+	const targetDir = destination === "new" ? join(sessionsRoot, newFolderName) : currentSessionDir;
+	const targetName = basename(targetDir);
+
+	// Sessions in their own folder keep their cwd unless a path-mapping rule says where it lives here.
+	const targetCwd =
+		destination === "new" ? applyPathMappings(sourceCwd, config.pathMappings) : resolveSessionCwd(sourceCwd, ctx.cwd, config.pathMappings);
+	let cwd: string | undefined;
+	if (sourceCwd && targetCwd && targetCwd !== sourceCwd) {
+		const mode = options.rewriteCwd ? "always" : config.rewriteSessionCwd;
+		if (mode === "always") {
+			cwd = targetCwd;
+		} else if (mode === "ask" && ctx.hasUI && !options.dryRun) {
+			const confirmed = await ctx.ui.confirm(
+				"Sessions recorded under another path",
+				`These sessions were recorded in ${sourceCwd}. Rewrite their cwd to ${targetCwd}?`,
+			);
+			if (confirmed) cwd = targetCwd;
+		}
+	}
+
+	const plan = planImport(bundle, targetDir);
+	const description = describeImportPlan(bundle, plan, targetName, options.newIds, cwd);
+	if (options.dryRun) {
+		report(ctx, `Dry run: no files were changed.\n${description}`);
+		return;
+	}
+	if (plan.added.length === 0 && (plan.conflicts.length === 0 || !options.newIds)) {
+		report(ctx, `Nothing to import.\n${description}`, "warning");
+		return;
+	}
+	if (!options.yes) {
+		const confirmed = await ctx.ui.confirm("Import sessions?", description);
+		if (!confirmed) {
+			ctx.ui.notify("Import cancelled.", "info");
+			return;
+		}
+	}
+
+	let transaction: ImportTransaction;
+	try {
+		transaction = createImportTransaction(bundle, targetDir, { cwd, newIds: options.newIds });
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		report(ctx, `Failed to import sessions: ${message}`, "error");
+		return;
+	}
+
+	const sessionsText = `${transaction.imported.length} session${transaction.imported.length === 1 ? "" : "s"}`;
+	if (destination === "new") {
+		transaction.commit();
+		report(ctx, `Imported ${sessionsText} into ${targetName}. Link to it with /link-sessions ${targetName}.`);
+		return;
+	}
+
+	await resumeInCurrentFolder(
+		ctx,
+		currentSessionDir,
+		transaction,
+		{
+			newSession: `Imported ${sessionsText}. Started a new session.`,
+			switched: `Imported ${sessionsText} and switched session.`,
+			committed: `Imported ${sessionsText} into ${targetName}.`,
+		},
+		// The cwd question was already answered for the whole bundle.
+		{ session: transaction.imported[0]?.id, keepCwd: true },
+	);
+}
+
+function describeFolderStatus(
+	currentSessionDir: string,
+	activeSessionFile: string | undefined,
+): { message: string; level: "info" | "warning" } {
+	const name = basename(currentSessionDir);
+	const kind = getPathKind(currentSessionDir);
+
+	if (kind === "symlink") {
+		const chain = resolveSymlinkChain(currentSessionDir);
+		const target = chain.final ? shortenPath(chain.final) : "(unknown)";
+		if (chain.status !== "ok") {
+			return { message: `${name} is a broken link (${chain.status}) to ${target}. Run /link-sessions doctor.`, level: "warning" };
+		}
+		const style = isRelativeLink(currentSessionDir) ? "relative link" : "link";
+		return { message: `${name} is a ${style} to ${target} (${countSessionFiles(currentSessionDir)} sessions).`, level: "info" };
+	}
+
+	const marker = readMirrorMarker(currentSessionDir);
+	if (marker) {
+		try {
+			const pending = syncMirror(currentSessionDir, { dryRun: true, activeSessionFile });
+			const lines = [`${name} mirrors ${shortenPath(marker.target)}: ${formatMirrorSyncResult(pending)}.`];
+			for (const divergence of pending.diverged) {
+				lines.push(`- ${divergence.key} differs: ${divergence.localPath} vs ${divergence.targetPath}`);
+			}
+			return { message: lines.join("\n"), level: pending.diverged.length > 0 ? "warning" : "info" };
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			return { message: `${name} mirrors ${shortenPath(marker.target)}, but cannot sync: ${message}`, level: "warning" };
+		}
+	}
+
+	if (kind === "directory") {
+		return { message: `${name} is a regular folder with ${countSessionFiles(currentSessionDir)} sessions.`, level: "info" };
+	}
+	return { message: `${name} does not exist yet.`, level: "info" };
+}
+
+const DASHBOARD_VISIBLE_ROWS = 20;
+
+const DASHBOARD_SORT_KEYS: Record<string, FolderSortKey> = { n: "name", s: "size", c: "sessions", a: "activity", l: "links" };
+
+function describeFolderLinkStatus(folder: FolderStats): string {
+	const target = folder.target ? shortenPath(folder.target) : "(unknown)";
+	switch (folder.status) {
+		case "directory":
+			return "dir";
+		case "mirror":
+			return `mirror of ${target}`;
+		case "symlink":
+			return `link → ${target}`;
+		case "dangling":
+			return `dangling → ${target}`;
+	}
+}
+
+/** Pads each column to its widest cell; numeric columns are right-aligned. */
+function formatTableRows(rows: string[][], rightAligned: boolean[]): string[] {
+	const widths = rows[0]?.map((_, column) => Math.max(...rows.map((row) => row[column]?.length ?? 0))) ?? [];
+	return rows.map((row) =>
+		row
+			.map((cell, column) => (rightAligned[column] ? cell.padStart(widths[column]!) : cell.padEnd(widths[column]!)))
+			.join("  ")
+			.trimEnd(),
+	);
+}
+
+function formatFolderDashboard(stats: FolderStats[], sortKey: FolderSortKey): { header: string; rows: string[]; totals: string } {
+	const sorted = sortFolderStats(stats, sortKey);
+	const lines = formatTableRows(
+		[
+			["Folder", "Size", "Sessions", "Active", "Links in", "Status", "Cwd"],
+			...sorted.map((folder) => [
+				truncate(folder.name, 40),
+				folder.status === "dangling" ? "-" : formatSize(folder.size),
+				folder.status === "dangling" ? "-" : String(folder.sessionCount),
+				folder.lastActivity ? `${formatAge(folder.lastActivity)} ago` : "-",
+				String(folder.inboundLinks),
+				truncate(describeFolderLinkStatus(folder), 40),
+				`${truncate(shortenPath(folder.cwd), 48)}${folder.cwdSource === "decoded" ? " (guessed)" : ""}${folder.cwdExists ? "" : " (missing here)"}`,
+			]),
+		],
+		[false, true, true, true, true, false, false],
+	);
+
+	const totals = summarizeFolderStats(stats);
+	const breakdown = [`${totals.realFolders} real`, `${totals.links} link${totals.links === 1 ? "" : "s"}`];
+	if (totals.dangling > 0) breakdown.push(`${totals.dangling} dangling`);
+	return {
+		header: lines[0]!,
+		rows: lines.slice(1),
+		totals: `Total: ${totals.folders} folder${totals.folders === 1 ? "" : "s"} (${breakdown.join(", ")}) • ${totals.sessionCount} sessions • ${formatSize(totals.size)} in real folders`,
+	};
+}
+
+async function showFolderDashboard(ctx: ExtensionCommandContext, stats: FolderStats[], initialSortKey: FolderSortKey): Promise<void> {
+	await ctx.ui.custom<void>((tui, theme, _kb, done) => {
+		let sortKey = initialSortKey;
+		let offset = 0;
+		let dashboard = formatFolderDashboard(stats, sortKey);
+
+		const container = new Container();
+		container.addChild(new Text(theme.fg("accent", theme.bold("Session folders")), 1, 0));
+		const tableText = new Text("", 1, 0);
+		container.addChild(tableText);
+		container.addChild(new Spacer(1));
+		const footerText = new Text("", 1, 0);
+		container.addChild(footerText);
+		container.addChild(
+			new Text(theme.fg("dim", "sort: n name • s size • c sessions • a activity • l links in • ↑↓ scroll • esc close"), 1, 0),
+		);
+
+		const update = () => {
+			const visible = dashboard.rows.slice(offset, offset + DASHBOARD_VISIBLE_ROWS);
+			tableText.setText([theme.bold(dashboard.header), ...visible].join("\n"));
+			const range =
+				dashboard.rows.length > DASHBOARD_VISIBLE_ROWS
+					? ` • rows ${offset + 1}–${offset + visible.length} of ${dashboard.rows.length}`
+					: "";
+			footerText.setText(`${dashboard.totals}\n${theme.fg("muted", `sorted by ${sortKey}${range}`)}`);
+		};
+		update();
+
+		return {
+			render(width: number) {
+				return container.render(width);
+			},
+			invalidate() {
+				container.invalidate();
+			},
+			handleInput(data: string) {
+				if (matchesKey(data, "escape") || matchesKey(data, "enter")) {
+					done();
+					return;
+				}
+				const maxOffset = Math.max(0, dashboard.rows.length - DASHBOARD_VISIBLE_ROWS);
+				if (matchesKey(data, "up")) {
+					offset = Math.max(0, offset - 1);
+				} else if (matchesKey(data, "down")) {
+					offset = Math.min(maxOffset, offset + 1);
+				} else if (DASHBOARD_SORT_KEYS[data]) {
+					sortKey = DASHBOARD_SORT_KEYS[data]!;
+					offset = 0;
+					dashboard = formatFolderDashboard(stats, sortKey);
+				} else {
+					return;
+				}
+				update();
+				tui.requestRender();
+			},
+		};
+	});
+}
+
+const CANDIDATE_REASON_LABELS: Record<LinkCandidateReason, string> = {
+	"path-mapping": "path rule",
+	"git-remote": "same git remote",
+	basename: "same folder name",
+};
+
+async function selectStartupCandidate(
+	ctx: ExtensionContext,
+	candidates: LinkCandidate[],
+): Promise<LinkCandidate | "never" | undefined> {
+	const options = candidates.slice(0, 5).map((candidate) => {
+		const cwdText = candidate.cwd ? shortenPath(candidate.cwd) : candidate.folder.name;
+		const sessionsText = `${candidate.folder.sessionCount} session${candidate.folder.sessionCount === 1 ? "" : "s"}`;
+		return `Link ${cwdText} (${CANDIDATE_REASON_LABELS[candidate.reason]}, ${sessionsText})`;
+	});
+	const notNow = "Not now";
+	const never = "Never ask for this folder";
+
+	const selected = await ctx.ui.select("This folder has no sessions yet. Link sessions recorded elsewhere?", [
+		...options,
+		notNow,
+		never,
+	]);
+	if (selected === never) return "never";
+
+	const index = selected ? options.indexOf(selected) : -1;
+	return index >= 0 ? candidates[index] : undefined;
+}
+
+const SESSION_LOOKUP_ACTIONS = ["list", "search", "read"] as const;
+
+const SESSION_LOOKUP_PARAMS = Type.Object({
+	action: StringEnum(SESSION_LOOKUP_ACTIONS, {
+		description:
+			"list: all session folders, or the newest sessions of `folder`. search: sessions whose messages contain `query`. read: an excerpt of `session` in `folder`.",
+	}),
+	folder: Type.Optional(
+		Type.String({ description: "Folder name, label or recorded cwd; partial names match. Required for read." }),
+	),
+	query: Type.Optional(
+		Type.String({ description: "Words to search for; quote a phrase to match it whole. With read, picks the turns to quote." }),
+	),
+	session: Type.Optional(Type.String({ description: 'Session id, unique id prefix or "latest" (default) for read.' })),
+});
+
+type SessionLookupParams = Static<typeof SESSION_LOOKUP_PARAMS>;
+
+/** Output of the session lookup tool is cut at this size, well below pi's own tool output limit. */
+const SESSION_LOOKUP_MAX_BYTES = 16 * 1024;
+const SESSION_LOOKUP_LIST_SESSIONS = 20;
+const SESSION_LOOKUP_EXCERPT_TURNS = 20;
+const SESSION_LOOKUP_TURN_CHARS = 1500;
+
+function findLookupFolder(choices: FolderChoice[], labels: Map<string, FolderLabel>, query: string): FolderChoice {
+	let matches = bestFolderMatches(choices, query);
+	if (matches.length === 0) matches = filterFolderChoices(choices, labels, query);
+	if (matches.length === 0) throw new Error(`No session folder matches "${query}".`);
+	if (matches.length > 1) {
+		throw new Error(`"${query}" matches several folders: ${matches.map((match) => match.name).join(", ")}`);
+	}
+	return matches[0]!;
+}
+
+async function formatSessionExcerpt(
+	ctx: ExtensionContext,
+	folder: FolderChoice,
+	label: FolderLabel | undefined,
+	params: SessionLookupParams,
+): Promise<string> {
+	const sessions = await SessionManager.list(ctx.cwd, folder.path);
+	const sessionQuery = params.session ?? "latest";
+	const session = findSessionByQuery(sessions, sessionQuery);
+	if (!session) throw new Error(`No session matches "${sessionQuery}" in ${folder.name}.`);
+
+	const details = await readSessionDetails(session.path, Number.POSITIVE_INFINITY);
+	const terms = parseSearchQuery(params.query ?? "");
+	const selected = selectExcerptTurns(details.turns, terms, SESSION_LOOKUP_EXCERPT_TURNS);
+
+	const lines = [
+		`folder: ${formatFolderLabel(folder, label)}`,
+		`session: ${session.id}${session.name ? ` (${session.name})` : ""}`,
+		`cwd: ${details.cwd || "(unknown)"} • model: ${details.model ?? "(unknown)"} • last active: ${formatDateTime(session.modified)}`,
+		`Showing ${selected.length} of ${details.turns.length} messages${terms.length > 0 ? ` around "${params.query}"` : ""}:`,
+		"",
+	];
+	let previous = -1;
+	for (const turnIndex of selected) {
+		if (turnIndex > previous + 1) lines.push("…");
+		const turn = details.turns[turnIndex]!;
+		lines.push(`[${turnIndex + 1}] ${turn.role}: ${truncate(turn.text.trim(), SESSION_LOOKUP_TURN_CHARS)}`);
+		previous = turnIndex;
+	}
+	if (previous < details.turns.length - 1) lines.push("…");
+	return lines.join("\n");
+}
+
+/** Answers a lookup from the session lookup tool. Never changes any file besides the session index cache. */
+async function lookUpSessions(ctx: ExtensionContext, params: SessionLookupParams, signal?: AbortSignal): Promise<string> {
+	const currentSessionDir = ctx.sessionManager.getSessionDir();
+	if (!currentSessionDir) throw new Error("The current session is ephemeral (--no-session), so there are no session folders.");
+
+	const config = loadConfig(getConfigPath());
+	const index = openSessionIndex();
+	try {
+		const { choices } = listRootFolderChoices(
+			dirname(currentSessionDir),
+			config.extraRoots,
+			basename(currentSessionDir),
+			config.pathMappings,
+			index,
+		);
+		const labels = loadFolderChoiceLabels(choices);
+
+		if (params.action === "list") {
+			if (params.folder) {
+				const folder = findLookupFolder(choices, labels, params.folder);
+				return await buildFolderPreviewText(folder, ctx.cwd, config.pathMappings, index, labels.get(folder.path), {
+					sessionLimit: SESSION_LOOKUP_LIST_SESSIONS,
+					showIds: true,
+				});
+			}
+			if (choices.length === 0) return "No session folders found.";
+			return choices
+				.map((choice) => {
+					const cwdText = choice.cwd ? ` • cwd ${choice.cwd}` : "";
+					return `${formatFolderLabel(choice, labels.get(choice.path))} • ${formatFolderDescription(choice, labels.get(choice.path))}${cwdText}`;
+				})
+				.join("\n");
+		}
+
+		if (params.action === "search") {
+			if (!params.query || parseSearchQuery(params.query).length === 0) throw new Error("search needs a query.");
+			const folders = params.folder ? [findLookupFolder(choices, labels, params.folder)] : choices;
+			const hits: SessionSearchHit[] = [];
+			for await (const hit of searchSessions(folders, params.query, { signal })) {
+				hits.push(hit);
+			}
+			if (hits.length === 0) return `No sessions match "${params.query}".`;
+			return formatSearchResultLines(hits).join("\n");
+		}
+
+		if (!params.folder) throw new Error("read needs a folder.");
+		const folder = findLookupFolder(choices, labels, params.folder);
+		return await formatSessionExcerpt(ctx, folder, labels.get(folder.path), params);
+	} finally {
+		try {
+			index.save();
+		} catch {
+			// the index is only a cache
+		}
+	}
+}
+
+function limitToolOutput(text: string): string {
+	const truncation = truncateHead(text, { maxBytes: SESSION_LOOKUP_MAX_BYTES, maxLines: DEFAULT_MAX_LINES });
+	if (!truncation.truncated) return truncation.content;
+	return `${truncation.content}\n\n[Output truncated to ${formatSize(SESSION_LOOKUP_MAX_BYTES)}: ${truncation.outputLines} of ${truncation.totalLines} lines. Narrow the lookup with a folder or query.]`;
+}
+
+export default function linkSessionsExtension(pi: ExtensionAPI) {
+	const offeredFolders = new Set<string>();
+
+	const getGitRemote = async (cwd: string): Promise<string | undefined> => {
+		const result = await pi.exec("git", ["-C", cwd, "remote", "get-url", "origin"], { timeout: 5000 });
+		const remote = result.stdout.trim();
+		return result.code === 0 && remote ? remote : undefined;
+	};
+
+	let backupsChecked = false;
+	let trashPruned = false;
+	const reportedDivergences = new Set<string>();
+
+	const syncCurrentMirror = (ctx: ExtensionContext) => {
+		const currentSessionDir = ctx.sessionManager.getSessionDir();
+		if (!currentSessionDir || !readMirrorMarker(currentSessionDir)) return;
+
+		try {
+			const result = syncMirror(currentSessionDir, { activeSessionFile: ctx.sessionManager.getSessionFile() });
+			const fresh = result.diverged.filter((divergence) => !reportedDivergences.has(divergence.key));
+			if (fresh.length === 0 || !ctx.hasUI) return;
+			for (const divergence of fresh) reportedDivergences.add(divergence.key);
+			ctx.ui.notify(
+				`${fresh.length} mirrored session${fresh.length === 1 ? " has" : "s have"} diverged from the target and won't sync. Run /link-sessions status for details.`,
+				"warning",
+			);
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			if (ctx.hasUI) ctx.ui.notify(`Mirror sync failed: ${message}`, "warning");
+		}
+	};
+
+	pi.on("agent_end", async (_event, ctx) => {
+		syncCurrentMirror(ctx);
+	});
+
+	pi.on("session_shutdown", async (event, ctx) => {
+		syncCurrentMirror(ctx);
+
+		const currentSessionDir = ctx.sessionManager.getSessionDir();
+		if (event.reason !== "quit" || !currentSessionDir) return;
+		try {
+			clearSessionPresence(dirname(currentSessionDir));
+		} catch {
+			// ignore
+		}
+	});
+
+	pi.on("session_start", async (_event, ctx) => {
+		syncCurrentMirror(ctx);
+
+		const currentSessionDir = ctx.sessionManager.getSessionDir();
+		if (!currentSessionDir) return;
+
+		try {
+			recordSessionPresence(dirname(currentSessionDir), currentSessionDir, ctx.sessionManager.getSessionFile());
+		} catch {
+			// Presence only feeds warnings; a read-only sessions root shouldn't get in the way.
+		}
+
+		if (!trashPruned) {
+			// Another process holding the lock may be restoring from the trash; prune on a later start instead.
+			let lock: SessionsLock | undefined;
+			try {
+				lock = acquireSessionsLock(dirname(currentSessionDir), "trash prune");
+				trashPruned = true;
+				const config = loadConfig(getConfigPath());
+				pruneTrash(dirname(currentSessionDir), {
+					retentionDays: config.trashRetentionDays,
+					maxSizeMb: config.trashMaxSizeMb,
+				});
+			} catch {
+				// the trash is pruned again on the next start
+			} finally {
+				lock?.release();
+			}
+		}
+		if (!ctx.hasUI) return;
+
+		if (!backupsChecked) {
+			backupsChecked = true;
+			const orphaned = findOrphanedBackups(dirname(currentSessionDir), ORPHANED_BACKUP_MIN_AGE_MS);
+			if (orphaned.length > 0) {
+				ctx.ui.notify(
+					`Found ${orphaned.length} interrupted link backup${orphaned.length === 1 ? "" : "s"}. Run /link-sessions recover to restore or discard.`,
+					"warning",
+				);
+			}
+		}
+
+		if (countSessionFiles(currentSessionDir) > 0 || readMirrorMarker(currentSessionDir)) return;
+
+		const currentFolderName = basename(currentSessionDir);
+		if (offeredFolders.has(currentFolderName)) return;
+
+		const configPath = getConfigPath();
+		let config: LinkSessionsConfig;
+		try {
+			config = loadConfig(configPath);
+		} catch {
+			return;
+		}
+		if (!config.offerOnStart || config.neverOfferFolders.includes(currentFolderName)) return;
+		offeredFolders.add(currentFolderName);
+
+		const folderChoices = listFolderChoices(dirname(currentSessionDir), currentFolderName, config.pathMappings);
+		const candidates = await findLinkCandidates(folderChoices, ctx.cwd, config.pathMappings, getGitRemote);
+		if (candidates.length === 0) return;
+
+		const selected = await selectStartupCandidate(ctx, candidates);
+		if (selected === "never") {
+			saveConfig(configPath, {
+				...config,
+				neverOfferFolders: [...config.neverOfferFolders, currentFolderName],
+			});
+			ctx.ui.notify("Won't offer linking for this folder again.", "info");
+			return;
+		}
+		if (!selected) return;
+
+		// Session switching needs a command context, so hand over to the regular link → resume flow.
+		ctx.ui.setEditorText(`/link-sessions "${selected.folder.name}" --yes`);
+		ctx.ui.notify("Press enter to link and choose a session to resume.", "info");
+	});
+
+	const handler = async (args: string, ctx: ExtensionCommandContext): Promise<void> => {
+		let options: LinkCommandArgs;
+		try {
+			options = parseLinkCommandArgs(args);
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			report(ctx, `${message}\n${LINK_USAGE}`, "error");
+			return;
+		}
+
+		if (!ctx.hasUI && !options.folder && !options.subcommand) {
+			report(ctx, LINK_USAGE, "error");
+			return;
+		}
+
+		if (!ctx.isIdle()) {
+			if (ctx.hasUI) ctx.ui.notify("Waiting for current response to finish...", "info");
+			await ctx.waitForIdle();
+		}
+
+		const currentSessionDir = ctx.sessionManager.getSessionDir();
+		if (!currentSessionDir) {
+			report(ctx, "Current session is ephemeral (--no-session). Cannot Link folders.", "error");
+			return;
+		}
+
+		const sessionsRoot = dirname(currentSessionDir);
+		mkdirSync(sessionsRoot, { recursive: true });
+
+		// Anything that may move folders holds the sessions root lock from planning until it is committed.
+		let lock: SessionsLock | undefined;
+		if (!options.dryRun && !READ_ONLY_SUBCOMMANDS.has(options.subcommand ?? "")) {
+			try {
+				lock = acquireSessionsLock(sessionsRoot, options.subcommand ?? "link");
+			} catch (err) {
+				const message = err instanceof Error ? err.message : String(err);
+				report(ctx, message, "error");
+				return;
+			}
+		}
+
+		try {
+			await runLinkCommand(ctx, options, currentSessionDir);
+		} finally {
+			lock?.release();
+		}
+	};
+
+	const runLinkCommand = async (
+		ctx: ExtensionCommandContext,
+		options: LinkCommandArgs,
+		currentSessionDir: string,
+	): Promise<void> => {
+		const currentFolderName = basename(currentSessionDir);
+		const sessionsRoot = dirname(currentSessionDir);
+		const journalPath = getJournalPath(sessionsRoot);
+
+		if (options.subcommand === "history") {
+			await showHistory(ctx, journalPath, currentSessionDir, options);
+			return;
+		}
+		if (options.subcommand === "undo") {
+			await undoJournalEntry(ctx, journalPath, currentSessionDir, options);
+			return;
+		}
+		if (options.subcommand === "recover") {
+			await recoverBackups(ctx, sessionsRoot, journalPath, currentSessionDir, options);
+			return;
+		}
+		if (options.subcommand === "trash") {
+			await manageTrash(ctx, sessionsRoot, journalPath, currentSessionDir, options);
+			return;
+		}
+		if (options.subcommand === "gc") {
+			await collectGarbage(ctx, sessionsRoot, journalPath, currentSessionDir, options);
+			return;
+		}
+		if (options.subcommand === "doctor") {
+			await runDoctor(ctx, sessionsRoot, journalPath, options);
+			return;
+		}
+		if (options.subcommand === "adopt") {
+			await adoptSessions(ctx, sessionsRoot, currentSessionDir, options);
+			return;
+		}
+		if (options.subcommand === "export") {
+			await exportSessions(ctx, sessionsRoot, currentSessionDir, options);
+			return;
+		}
+		if (options.subcommand === "import") {
+			await importBundle(ctx, sessionsRoot, currentSessionDir, options);
+			return;
+		}
+		if (options.subcommand === "status") {
+			const status = describeFolderStatus(currentSessionDir, ctx.sessionManager.getSessionFile());
+			report(ctx, status.message, status.level);
+			return;
+		}
+		if (options.subcommand === "relativize") {
+			await relativizeLinks(ctx, sessionsRoot, journalPath, options);
+			return;
+		}
+
+		const configPath = getConfigPath();
+		let config: LinkSessionsConfig;
+		try {
+			config = loadConfig(configPath);
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			report(ctx, message, "error");
+			return;
+		}
+
+		const { choices: folderChoices, unreachable } = listRootFolderChoices(
+			sessionsRoot,
+			config.extraRoots,
+			currentFolderName,
+			config.pathMappings,
+		);
+		if (folderChoices.length === 0) {
+			report(ctx, "No session folders found.", "warning");
+			return;
+		}
+
+		// The folder manager keys change folders, so they are left out of a dry run, which holds no lock.
+		const manager: FolderManagerContext | undefined = options.dryRun ? undefined : { currentSessionDir, journalPath };
+		let picked: PickedFolder | undefined;
+		if (options.subcommand === "search") {
+			const query = options.subcommandArgs.map((arg) => (/\s/.test(arg) ? `"${arg}"` : arg)).join(" ");
+			if (parseSearchQuery(query).length === 0) {
+				report(ctx, `Usage: /link-sessions search <query>`, "error");
+				return;
+			}
+			if (!ctx.hasUI) {
+				await printSearchResults(ctx, folderChoices, query);
+				return;
+			}
+			const hit = await searchSessionsInteractively(ctx, folderChoices, query);
+			const folder = hit && folderChoices.find((choice) => choice.path === hit.folderPath);
+			if (hit && folder) picked = { folder, sessionId: hit.sessionId };
+		} else if (options.folder) {
+			const matches = bestFolderMatches(folderChoices, options.folder);
+			if (matches.length === 0) {
+				const unreachableText =
+					unreachable.length > 0 ? ` Unreachable session roots: ${unreachable.map((root) => root.label).join(", ")}.` : "";
+				report(ctx, `No session folder matches "${options.folder}".${unreachableText}`, "error");
+				return;
+			}
+			if (matches.length === 1) {
+				picked = { folder: matches[0] };
+			} else if (!ctx.hasUI) {
+				report(ctx, `"${options.folder}" matches several folders: ${matches.map((m) => m.name).join(", ")}`, "error");
+				return;
+			} else {
+				const query = options.folder;
+				picked = await pickFolder(
+					ctx,
+					(loaded, index) => {
+						const listed = listRootFolderChoices(
+							sessionsRoot,
+							loaded.extraRoots,
+							currentFolderName,
+							loaded.pathMappings,
+							index,
+						);
+						return { ...listed, choices: matchFolderChoices(listed.choices, query) };
+					},
+					configPath,
+					manager,
+				);
+			}
+		} else {
+			picked = await pickFolder(
+				ctx,
+				(loaded, index) =>
+					listRootFolderChoices(sessionsRoot, loaded.extraRoots, currentFolderName, loaded.pathMappings, index),
+				configPath,
+				manager,
+			);
+		}
+
+		if (!picked) {
+			report(ctx, "Link sessions cancelled.");
+			return;
+		}
+		if (picked.finished) return;
+		const selectedFolder = picked.folder;
+
+		let transaction: LinkTransaction | undefined;
+		const mirror = options.mirror || (options.relative === undefined && config.linkMode === "mirror");
+		// A relative link into another root would break as soon as either root is mounted elsewhere.
+		const relativeLink = options.relative ?? (config.relativeLinks && !selectedFolder.root);
+		const linkNeeded = !selectedFolder.isCurrent;
+		const selection: SessionSelection = {
+			session: options.session ?? (options.newSession ? undefined : picked.sessionId),
+			newSession: options.newSession,
+			rewriteCwd: options.rewriteCwd,
+		};
+
+		if (linkNeeded) {
+			if (selectedFolder.root && !isSessionRootReachable(dirname(selectedFolder.path))) {
+				report(ctx, `Refusing to link: session root ${selectedFolder.root} is not mounted or reachable.`, "error");
+				return;
+			}
+
+			const currentKind = getPathKind(currentSessionDir);
+			if (currentKind === "other") {
+				report(ctx, "Refusing to link: current session path is not a directory or symlink.", "error");
+				return;
+			}
+
+			const sessionCount = currentKind === "directory" ? countSessionFiles(currentSessionDir) : 0;
+			const hasExistingSessions = sessionCount > 1;
+			const planLinkOrReport = (merge: boolean): LinkPlan | undefined => {
+				try {
+					return planLink(currentSessionDir, selectedFolder.path, { merge, relative: relativeLink, mirror });
+				} catch (err) {
+					const message = err instanceof Error ? err.message : String(err);
+					report(ctx, `Failed to link sessions: ${message}`, "error");
+					return undefined;
+				}
+			};
+
+			if (options.dryRun) {
+				const plan = planLinkOrReport(options.merge);
+				if (!plan) return;
+				report(ctx, describeDryRun(currentFolderName, currentKind, sessionCount, selectedFolder, options, plan));
+				return;
+			}
+
+			if (!options.yes && !ctx.hasUI) {
+				report(ctx, "Pass --yes to link folders in non-interactive mode.", "error");
+				return;
+			}
+
+			let merge = options.merge;
+			if (hasExistingSessions && !options.merge && !options.replace) {
+				if (!ctx.hasUI) {
+					report(
+						ctx,
+						`${currentFolderName} contains ${sessionCount} sessions. Pass --merge to keep them or --replace to move them to the trash.`,
+						"error",
+					);
+					return;
+				}
+
+				const strategy = await selectExistingSessionsStrategy(ctx, currentFolderName, selectedFolder.name, sessionCount);
+				if (!strategy) {
+					ctx.ui.notify("Link cancelled. No files were changed.", "info");
+					return;
+				}
+				merge = strategy === "merge";
+			}
+
+			const plan = planLinkOrReport(merge);
+			if (!plan) return;
+
+			const othersWarning = describeOtherSessionsInFolder(sessionsRoot, currentSessionDir);
+			if (!options.yes) {
+				const description = mirror
+					? `Replace ${currentFolderName} with a mirror of ${selectedFolder.name}, kept in sync:\n${formatLinkPlan(plan)}`
+					: `Replace ${currentFolderName} with a symlink to ${selectedFolder.name}:\n${formatLinkPlan(plan)}`;
+				const confirmed = await ctx.ui.confirm(
+					"Link sessions?",
+					othersWarning ? `${description}\n\nWarning: ${othersWarning}` : description,
+				);
+				if (!confirmed) {
+					ctx.ui.notify("Link cancelled.", "info");
+					return;
+				}
+			} else if (othersWarning) {
+				report(ctx, othersWarning, "warning");
+			}
+
+			try {
+				const previous = describePathState(currentSessionDir);
+				transaction = journalTransaction(executeLinkPlan(plan), journalPath, {
+					action: "link",
+					currentDir: currentSessionDir,
+					previous,
+				});
+			} catch (err) {
+				const message = err instanceof Error ? err.message : String(err);
+				const code = (err as NodeJS.ErrnoException).code;
+				const hint =
+					!mirror && (code === "EPERM" || code === "ENOTSUP" || code === "EOPNOTSUPP")
+						? "\nThis filesystem may not allow symlinks; pass --mirror to copy sessions instead."
+						: "";
+				report(ctx, `Failed to link sessions${merge ? " (merge reverted)" : ""}: ${message}${hint}`, "error");
+				return;
+			}
+
+			const merged = transaction.merged ?? [];
+			if (merged.length > 0) {
+				const renamedCount = merged.filter((file) => file.renamed).length;
+				const renamedText = renamedCount > 0 ? ` (${renamedCount} renamed to avoid name collisions)` : "";
+				report(ctx, `Merged ${merged.length} session${merged.length === 1 ? "" : "s"} into ${selectedFolder.name}${renamedText}.`);
+			}
+		} else if (options.dryRun) {
+			report(ctx, describeDryRun(currentFolderName, "directory", 0, selectedFolder, options, undefined));
+			return;
+		}
+
+		await resumeInCurrentFolder(
+			ctx,
+			currentSessionDir,
+			transaction,
+			{
+				newSession: linkNeeded ? "Sessions linked. Started a new session." : "Started a new session.",
+				switched: linkNeeded ? `Linked to ${selectedFolder.name} and switched session.` : "Switched session.",
+				committed: linkNeeded ? `Linked ${currentFolderName} to ${selectedFolder.name}.` : `${currentFolderName} is already the current folder.`,
+			},
+			selection,
+		);
+	};
+
+	const unlinkHandler = async (_args: string, ctx: ExtensionCommandContext): Promise<void> => {
+		if (!ctx.hasUI) {
+			return;
+		}
+
+		if (!ctx.isIdle()) {
+			ctx.ui.notify("Waiting for current response to finish...", "info");
+			await ctx.waitForIdle();
+		}
+
+		const currentSessionDir = ctx.sessionManager.getSessionDir();
+		if (!currentSessionDir) {
+			ctx.ui.notify("Current session is ephemeral (--no-session). Cannot unlink folders.", "error");
+			return;
+		}
+
+		const currentFolderName = basename(currentSessionDir);
+		const mirror = readMirrorMarker(currentSessionDir);
+		if (!mirror && getPathKind(currentSessionDir) !== "symlink") {
+			ctx.ui.notify(`${currentFolderName} is not linked to another folder.`, "info");
+			return;
+		}
+
+		const target = mirror ? mirror.target : resolveLinkTarget(currentSessionDir);
+		const targetLabel = target ? shortenPath(target) : "(missing target)";
+
+		const mode = await selectUnlinkMode(ctx, currentFolderName, targetLabel, mirror !== undefined);
+		if (!mode) {
+			ctx.ui.notify("Unlink cancelled.", "info");
+			return;
+		}
+
+		const sessionsRoot = dirname(currentSessionDir);
+		let lock: SessionsLock;
+		try {
+			lock = acquireSessionsLock(sessionsRoot, "unlink");
 		} catch (err) {
-			transaction?.rollback();
 			const message = err instanceof Error ? err.message : String(err);
-			ctx.ui.notify(`Failed to complete session switch: ${message}`, "error");
+			ctx.ui.notify(message, "error");
+			return;
+		}
+
+		try {
+			const description = mirror
+				? `Stop mirroring ${targetLabel} in ${currentFolderName}?`
+				: `Replace the symlink ${currentFolderName} → ${targetLabel} with a real directory?`;
+			const othersWarning = describeOtherSessionsInFolder(sessionsRoot, currentSessionDir);
+			const confirmed = await ctx.ui.confirm(
+				"Unlink sessions?",
+				othersWarning ? `${description}\n\nWarning: ${othersWarning}` : description,
+			);
+			if (!confirmed) {
+				ctx.ui.notify("Unlink cancelled.", "info");
+				return;
+			}
+
+			let transaction: LinkTransaction;
+			try {
+				const previous = describePathState(currentSessionDir);
+				transaction = journalTransaction(
+					mirror ? createMirrorUnlinkTransaction(currentSessionDir, mode) : createUnlinkTransaction(currentSessionDir, mode),
+					getJournalPath(sessionsRoot),
+					{ action: "unlink", currentDir: currentSessionDir, previous },
+				);
+			} catch (err) {
+				const message = err instanceof Error ? err.message : String(err);
+				ctx.ui.notify(`Failed to unlink sessions: ${message}`, "error");
+				return;
+			}
+
+			await resumeInCurrentFolder(ctx, currentSessionDir, transaction, {
+				newSession: "Sessions unlinked. Started a new session.",
+				switched: `Unlinked from ${targetLabel} and switched session.`,
+				committed: `Unlinked from ${targetLabel}.`,
+			});
+		} finally {
+			lock.release();
 		}
 	};
 
@@ -296,4 +3340,59 @@ export default function linkSessionsExtension(pi: ExtensionAPI) {
 		description: "Link sessions from another path",
 		handler,
 	});
+
+	const foldersHandler = async (args: string, ctx: ExtensionCommandContext): Promise<void> => {
+		let sortKey: FolderSortKey;
+		try {
+			sortKey = parseDashboardArgs(args);
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			report(ctx, `${message}\nUsage: /session-folders [--sort ${FOLDER_SORT_KEYS.join("|")}]`, "error");
+			return;
+		}
+
+		const currentSessionDir = ctx.sessionManager.getSessionDir();
+		if (!currentSessionDir) {
+			report(ctx, "Current session is ephemeral (--no-session). There is no sessions folder to show.", "error");
+			return;
+		}
+
+		const stats = collectFolderStats(dirname(currentSessionDir));
+		if (stats.length === 0) {
+			report(ctx, "No session folders found.", "warning");
+			return;
+		}
+
+		if (!ctx.hasUI) {
+			const dashboard = formatFolderDashboard(stats, sortKey);
+			report(ctx, [dashboard.header, ...dashboard.rows, "", dashboard.totals].join("\n"));
+			return;
+		}
+		await showFolderDashboard(ctx, stats, sortKey);
+	};
+
+	pi.registerCommand("unlink-sessions", {
+		description: "Turn a linked session folder back into a real directory",
+		handler: unlinkHandler,
+	});
+
+	pi.registerCommand("session-folders", {
+		description: "Show size, activity and link status of every session folder",
+		handler: foldersHandler,
+	});
+
+	pi.registerTool({
+		name: "session_lookup",
+		label: "Session lookup",
+		description: `Read-only lookup of pi sessions recorded in other folders, including other machines' folders synced into the sessions root. list shows the session folders or a folder's newest sessions with their ids; search finds sessions by message text; read quotes up to ${SESSION_LOOKUP_EXCERPT_TURNS} messages of one session, around the query when given. Output is cut at ${formatSize(SESSION_LOOKUP_MAX_BYTES)}.`,
+		promptSnippet: "Look up, search and quote pi sessions from other folders and machines",
+		promptGuidelines: [
+			"Use session_lookup when the user refers to earlier work done in another session, folder or machine, and quote what session_lookup returns instead of guessing.",
+		],
+		parameters: SESSION_LOOKUP_PARAMS,
+		async execute(_toolCallId, params, signal, _onUpdate, ctx) {
+			const text = await lookUpSessions(ctx, params, signal);
+			return { content: [{ type: "text", text: limitToolOutput(text) }], details: { action: params.action } };
+		},
+	});
 }
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { lstatSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import { createAdoptTransaction } from "../extensions/link-sessions-adopt.ts";
+import { readSessionHeader } from "../extensions/link-sessions-core.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-adopt-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function writeSession(folder: string, fileName: string, id: string, body = ""): string {
+	mkdirSync(folder, { recursive: true });
+	const path = join(folder, fileName);
+	writeFileSync(path, `${JSON.stringify({ type: "session", version: 3, id, timestamp: "t", cwd: "/x" })}\n${body}`);
+	return path;
+}
+
+test("createAdoptTransaction copies, moves and symlinks session files", (t) => {
+	const root = createTempDir(t);
+	const source = join(root, "source");
+	const current = join(root, "current");
+	mkdirSync(current);
+	const a = writeSession(source, "a.jsonl", "a", "line\n");
+	const b = writeSession(source, "b.jsonl", "b");
+	const c = writeSession(source, "c.jsonl", "c");
+
+	const copied = createAdoptTransaction([a], current, "copy");
+	assert.deepEqual(copied.adopted, [{ source: a, destination: join(current, "a.jsonl"), id: "a" }]);
+	copied.commit();
+	assert.equal(readFileSync(join(current, "a.jsonl"), "utf8"), readFileSync(a, "utf8"));
+
+	createAdoptTransaction([b], current, "move").commit();
+	assert.deepEqual(readdirSync(source).sort(), ["a.jsonl", "c.jsonl"]);
+
+	createAdoptTransaction([c], current, "symlink").commit();
+	assert.equal(lstatSync(join(current, "c.jsonl")).isSymbolicLink(), true);
+	assert.equal(readSessionHeader(join(current, "c.jsonl"))?.id, "c");
+});
+
+test("createAdoptTransaction rollback returns moved files and removes copies", (t) => {
+	const root = createTempDir(t);
+	const source = join(root, "source");
+	const current = join(root, "current");
+	mkdirSync(current);
+	const a = writeSession(source, "a.jsonl", "a");
+	const b = writeSession(source, "b.jsonl", "b");
+
+	createAdoptTransaction([a, b], current, "move").rollback();
+	assert.deepEqual(readdirSync(source).sort(), ["a.jsonl", "b.jsonl"]);
+	assert.deepEqual(readdirSync(current), []);
+
+	writeFileSync(join(root, "bogus.jsonl"), "not a session\n");
+	assert.throws(() => createAdoptTransaction([a, join(root, "bogus.jsonl")], current, "copy"), /Not a session file/);
+	assert.deepEqual(readdirSync(current), []);
+});
+
+test("createAdoptTransaction refuses duplicate ids unless copies get new ids", (t) => {
+	const root = createTempDir(t);
+	const source = join(root, "source");
+	const current = join(root, "current");
+	const a = writeSession(source, "a.jsonl", "a", '{"type":"message"}\n');
+	writeSession(current, "other-name.jsonl", "a");
+
+	assert.throws(() => createAdoptTransaction([a], current, "copy"), /already in this folder/);
+	assert.throws(() => createAdoptTransaction([a], current, "move", { newIds: true }), /only possible when copying/);
+
+	const tx = createAdoptTransaction([a], current, "copy", { newIds: true });
+	tx.commit();
+	const [adopted] = tx.adopted;
+	assert.notEqual(adopted?.id, "a");
+	assert.match(adopted!.destination, new RegExp(`_${adopted!.id}\\.jsonl$`));
+
+	const [headerLine, ...rest] = readFileSync(adopted!.destination, "utf8").split("\n");
+	const header = JSON.parse(headerLine!);
+	assert.equal(header.id, adopted!.id);
+	assert.equal(header.version, 3);
+	assert.equal(header.cwd, "/x");
+	assert.equal(header.parentSession, a);
+	assert.deepEqual(rest, ['{"type":"message"}', ""]);
+});
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { createImportTransaction, planImport, readBundle, writeBundle } from "../extensions/link-sessions-bundle.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-bundle-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function sessionContents(id: string, cwd: string, ...messages: string[]): string {
+	const lines: unknown[] = [{ type: "session", id, timestamp: "2026-01-01T00:00:00.000Z", cwd }];
+	for (const content of messages) {
+		lines.push({ type: "message", message: { role: "user", content } });
+	}
+	return `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`;
+}
+
+function writeSession(folder: string, fileName: string, contents: string): string {
+	mkdirSync(folder, { recursive: true });
+	const path = join(folder, fileName);
+	writeFileSync(path, contents);
+	return path;
+}
+
+function rewriteBundle(bundlePath: string, change: (data: { manifest: { version: number; sessions: Array<{ fileName: string }> }; files: Record<string, string> }) => void): void {
+	const data = JSON.parse(gunzipSync(readFileSync(bundlePath)).toString("utf8"));
+	change(data);
+	writeFileSync(bundlePath, gzipSync(JSON.stringify(data)));
+}
+
+test("writeBundle records ids, cwd and checksums and readBundle round-trips it", (t) => {
+	const root = createTempDir(t);
+	const source = join(root, "--home-alice-x--");
+	const first = writeSession(source, "2026-01-01_a.jsonl", sessionContents("a", "/home/alice/x", "one"));
+	const second = writeSession(source, "2026-01-02_b.jsonl", sessionContents("b", "/home/alice/x2", "two"));
+	const bundlePath = join(root, "x.pi-sessions");
+
+	const manifest = writeBundle([second, first], bundlePath, "--home-alice-x--");
+
+	assert.equal(manifest.sourceCwd, "/home/alice/x2");
+	assert.deepEqual(
+		manifest.sessions.map((session) => [session.fileName, session.id]),
+		[
+			["2026-01-01_a.jsonl", "a"],
+			["2026-01-02_b.jsonl", "b"],
+		],
+	);
+	assert.throws(() => writeBundle([first], bundlePath, "--home-alice-x--"), /already exists/);
+	assert.deepEqual(readdirSync(root).sort(), ["--home-alice-x--", "x.pi-sessions"]);
+
+	const bundle = readBundle(bundlePath);
+	assert.deepEqual(bundle.manifest, manifest);
+	assert.equal(bundle.files.get("2026-01-01_a.jsonl"), readFileSync(first, "utf8"));
+});
+
+test("readBundle rejects tampered, foreign and unsafe bundles", (t) => {
+	const root = createTempDir(t);
+	const session = writeSession(join(root, "src"), "a.jsonl", sessionContents("a", "/x", "one"));
+	const bundlePath = join(root, "x.pi-sessions");
+	writeBundle([session], bundlePath, "--x--");
+	const original = readFileSync(bundlePath);
+
+	rewriteBundle(bundlePath, (data) => {
+		data.files["a.jsonl"] += "extra\n";
+	});
+	assert.throws(() => readBundle(bundlePath), /Checksum mismatch for a\.jsonl/);
+
+	writeFileSync(bundlePath, original);
+	rewriteBundle(bundlePath, (data) => {
+		data.manifest.sessions[0].fileName = "../a.jsonl";
+		data.files["../a.jsonl"] = data.files["a.jsonl"];
+	});
+	assert.throws(() => readBundle(bundlePath), /invalid file name/);
+
+	writeFileSync(bundlePath, original);
+	rewriteBundle(bundlePath, (data) => {
+		data.manifest.version = 99;
+	});
+	assert.throws(() => readBundle(bundlePath), /newer version/);
+
+	writeFileSync(bundlePath, "plain text");
+	assert.throws(() => readBundle(bundlePath), /Not a session bundle/);
+});
+
+test("createImportTransaction skips present sessions, renames conflicts and rewrites the cwd", (t) => {
+	const root = createTempDir(t);
+	const source = join(root, "src");
+	const target = join(root, "target");
+	const paths = [
+		writeSession(source, "a.jsonl", sessionContents("a", "/mac/x", "one")),
+		writeSession(source, "b.jsonl", sessionContents("b", "/mac/x", "two")),
+		writeSession(source, "c.jsonl", sessionContents("c", "/mac/x", "three")),
+	];
+	const bundlePath = join(root, "x.pi-sessions");
+	writeBundle(paths, bundlePath, "--mac-x--");
+	const bundle = readBundle(bundlePath);
+
+	// "b" is here with more messages, "c" has the same id with other contents.
+	writeSession(target, "b.jsonl", sessionContents("b", "/mac/x", "two", "more"));
+	writeSession(target, "c.jsonl", sessionContents("c", "/mac/x", "different"));
+
+	const plan = planImport(bundle, target);
+	assert.deepEqual(
+		[plan.added, plan.present, plan.conflicts].map((group) => group.map((session) => session.id)),
+		[["a"], ["b"], ["c"]],
+	);
+
+	const skipping = createImportTransaction(bundle, target, { cwd: "/linux/x" });
+	assert.deepEqual(
+		skipping.imported.map((session) => session.id),
+		["a"],
+	);
+	assert.deepEqual(skipping.skipped, ["b", "c"]);
+	assert.equal(JSON.parse(readFileSync(join(target, "a.jsonl"), "utf8").split("\n")[0]!).cwd, "/linux/x");
+	skipping.rollback();
+	assert.deepEqual(readdirSync(target).sort(), ["b.jsonl", "c.jsonl"]);
+
+	const renaming = createImportTransaction(bundle, target, { newIds: true });
+	const renamed = renaming.imported.find((session) => session.fileName !== "a.jsonl");
+	assert.ok(renamed);
+	assert.notEqual(renamed.id, "c");
+	assert.equal(JSON.parse(readFileSync(renamed.destination, "utf8").split("\n")[0]!).id, renamed.id);
+	assert.equal(readFileSync(join(target, "c.jsonl"), "utf8"), sessionContents("c", "/mac/x", "different"));
+	renaming.commit();
+	assert.equal(readdirSync(target).length, 4);
+});
+
+test("createImportTransaction creates a new folder and removes it on rollback", (t) => {
+	const root = createTempDir(t);
+	const session = writeSession(join(root, "src"), "a.jsonl", sessionContents("a", "/x", "one"));
+	const bundlePath = join(root, "x.pi-sessions");
+	writeBundle([session], bundlePath, "--x--");
+	const target = join(root, "sessions", "--x--");
+
+	const transaction = createImportTransaction(readBundle(bundlePath), target);
+	assert.deepEqual(readdirSync(target), ["a.jsonl"]);
+	transaction.rollback();
+	assert.deepEqual(readdirSync(join(root, "sessions")), []);
+});
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import { defaultConfig, loadConfig, normalizeConfig, saveConfig } from "../extensions/link-sessions-config.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-config-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+test("loadConfig returns defaults when the file is missing", (t) => {
+	const root = createTempDir(t);
+	assert.deepEqual(loadConfig(join(root, "link-sessions.json")), defaultConfig());
+});
+
+test("saveConfig round-trips through loadConfig without leaving temp files", (t) => {
+	const root = createTempDir(t);
+	const configPath = join(root, "nested", "link-sessions.json");
+	const config = { ...defaultConfig(), pathMappings: [{ from: "/Users/alice", to: "/home/alice" }] };
+
+	saveConfig(configPath, config);
+
+	assert.deepEqual(loadConfig(configPath), config);
+	assert.deepEqual(readdirSync(join(root, "nested")), ["link-sessions.json"]);
+});
+
+test("loadConfig rejects invalid JSON", (t) => {
+	const root = createTempDir(t);
+	const configPath = join(root, "link-sessions.json");
+	writeFileSync(configPath, "{ nope");
+
+	assert.throws(() => loadConfig(configPath), /Invalid config file/);
+});
+
+test("normalizeConfig drops malformed path mappings", () => {
+	const config = normalizeConfig({
+		pathMappings: [{ from: "/a", to: "/b" }, { from: "/c" }, { from: "", to: "/d" }, "bogus"],
+	});
+	assert.deepEqual(config.pathMappings, [{ from: "/a", to: "/b" }]);
+	assert.deepEqual(normalizeConfig(null), defaultConfig());
+});
+
+test("normalizeConfig reads start-up offer settings", () => {
+	const config = normalizeConfig({ offerOnStart: false, neverOfferFolders: ["--a--", 3, ""] });
+	assert.equal(config.offerOnStart, false);
+	assert.deepEqual(config.neverOfferFolders, ["--a--"]);
+	assert.equal(normalizeConfig({ offerOnStart: "no" }).offerOnStart, true);
+});
+
+test("normalizeConfig reads link and resume settings", () => {
+	assert.equal(normalizeConfig({}).relativeLinks, false);
+	assert.equal(normalizeConfig({ relativeLinks: true }).relativeLinks, true);
+	assert.equal(normalizeConfig({ relativeLinks: "yes" }).relativeLinks, false);
+	assert.equal(normalizeConfig({ linkMode: "mirror" }).linkMode, "mirror");
+	assert.equal(normalizeConfig({ linkMode: "copy" }).linkMode, "symlink");
+	assert.equal(normalizeConfig({}).rewriteSessionCwd, "ask");
+	assert.equal(normalizeConfig({ rewriteSessionCwd: "always" }).rewriteSessionCwd, "always");
+});
+
+test("normalizeConfig reads extra session roots and labels them by folder name by default", () => {
+	assert.deepEqual(
+		normalizeConfig({
+			extraRoots: ["/mnt/team/sessions", { label: "old laptop", path: "/backup/sessions" }, { label: "empty" }, 42],
+		}).extraRoots,
+		[
+			{ label: "sessions", path: "/mnt/team/sessions" },
+			{ label: "old laptop", path: "/backup/sessions" },
+		],
+	);
+	assert.deepEqual(normalizeConfig({}).extraRoots, []);
+});
+
+test("normalizeConfig keeps trash and gc limits only when they are non-negative numbers", () => {
+	assert.equal(normalizeConfig({}).trashRetentionDays, 30);
+	assert.equal(normalizeConfig({ trashRetentionDays: 0 }).trashRetentionDays, 0);
+	assert.equal(normalizeConfig({ trashRetentionDays: -1 }).trashRetentionDays, 30);
+	assert.equal(normalizeConfig({ trashMaxSizeMb: "100" }).trashMaxSizeMb, 0);
+	assert.equal(normalizeConfig({ trashMaxSizeMb: 250 }).trashMaxSizeMb, 250);
+	assert.equal(normalizeConfig({}).gcStaleDays, 180);
+	assert.equal(normalizeConfig({ gcStaleDays: 0 }).gcStaleDays, 0);
+});
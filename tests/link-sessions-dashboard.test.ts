@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import {
+	collectFolderStats,
+	parseDashboardArgs,
+	sortFolderStats,
+	summarizeFolderStats,
+} from "../extensions/link-sessions-dashboard.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-dashboard-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function writeSession(folder: string, fileName: string, cwd: string, padding = "", mtimeSeconds?: number): void {
+	mkdirSync(folder, { recursive: true });
+	const path = join(folder, fileName);
+	writeFileSync(path, `${JSON.stringify({ type: "session", id: fileName, cwd })}\n${padding}`);
+	if (mtimeSeconds !== undefined) utimesSync(path, mtimeSeconds, mtimeSeconds);
+}
+
+test("collectFolderStats describes folders, links, dangling links and inbound links", (t) => {
+	const root = createTempDir(t);
+	const project = join(root, "--home-alice-project--");
+	writeSession(project, "a.jsonl", root, "x".repeat(100), 1_000);
+	writeSession(project, "b.jsonl", root, "", 2_000);
+	symlinkSync(project, join(root, "--Users-alice-project--"), "dir");
+	symlinkSync("--Users-alice-project--", join(root, "--mnt-alice-project--"), "dir");
+	symlinkSync(join(root, "--gone--"), join(root, "--home-alice-old--"), "dir");
+	mkdirSync(join(root, "--home-alice-project--.bak-1"));
+	mkdirSync(join(root, ".link-sessions-trash"));
+
+	const stats = collectFolderStats(root);
+	assert.deepEqual(
+		stats.map((folder) => [folder.name, folder.status, folder.inboundLinks]),
+		[
+			["--Users-alice-project--", "symlink", 0],
+			["--home-alice-old--", "dangling", 0],
+			["--home-alice-project--", "directory", 2],
+			["--mnt-alice-project--", "symlink", 0],
+		],
+	);
+
+	const real = stats.find((folder) => folder.name === "--home-alice-project--")!;
+	assert.equal(real.sessionCount, 2);
+	assert.equal(real.lastActivity?.getTime(), 2_000_000);
+	assert.equal(real.cwd, root);
+	assert.equal(real.cwdSource, "recorded");
+	assert.equal(real.cwdExists, true);
+
+	const dangling = stats.find((folder) => folder.name === "--home-alice-old--")!;
+	assert.equal(dangling.target, join(root, "--gone--"));
+	assert.equal(dangling.cwd, "/home/alice/old");
+	assert.equal(dangling.cwdSource, "decoded");
+
+	assert.deepEqual(summarizeFolderStats(stats), {
+		folders: 4,
+		realFolders: 1,
+		links: 2,
+		dangling: 1,
+		size: real.size,
+		sessionCount: 2,
+	});
+});
+
+test("sortFolderStats sorts names A-Z and other columns largest first", (t) => {
+	const root = createTempDir(t);
+	writeSession(join(root, "--a--"), "a.jsonl", "/a", "x".repeat(500), 3_000);
+	writeSession(join(root, "--b--"), "b.jsonl", "/b", "", 1_000);
+	writeSession(join(root, "--b--"), "c.jsonl", "/b", "", 1_000);
+	writeSession(join(root, "--c--"), "d.jsonl", "/c", "x".repeat(50), 2_000);
+	symlinkSync(join(root, "--c--"), join(root, "--d--"), "dir");
+
+	const stats = collectFolderStats(root);
+	const names = (key: Parameters<typeof sortFolderStats>[1]) => sortFolderStats(stats, key).map((folder) => folder.name);
+	assert.deepEqual(names("name"), ["--a--", "--b--", "--c--", "--d--"]);
+	assert.deepEqual(names("size"), ["--a--", "--c--", "--d--", "--b--"]);
+	assert.deepEqual(names("sessions"), ["--b--", "--a--", "--c--", "--d--"]);
+	assert.deepEqual(names("activity"), ["--a--", "--c--", "--d--", "--b--"]);
+	assert.deepEqual(names("links"), ["--c--", "--a--", "--b--", "--d--"]);
+});
+
+test("parseDashboardArgs reads the sort column", () => {
+	assert.equal(parseDashboardArgs(""), "size");
+	assert.equal(parseDashboardArgs("--sort activity"), "activity");
+	assert.throws(() => parseDashboardArgs("--sort colour"), /--sort requires one of/);
+	assert.throws(() => parseDashboardArgs("folders"), /Unexpected argument: folders/);
+});
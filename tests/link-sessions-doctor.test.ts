@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import { getPathKind, readSymlinkTarget } from "../extensions/link-sessions-core.ts";
+import {
+	createDoctorFixTransaction,
+	describeDoctorIssue,
+	diagnoseSessionsRoot,
+} from "../extensions/link-sessions-doctor.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-doctor-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function symlinkDir(target: string, linkPath: string): void {
+	const symlinkType = process.platform === "win32" ? "junction" : "dir";
+	symlinkSync(target, linkPath, symlinkType);
+}
+
+function writeSessionFile(folder: string, fileName: string, contents: string): void {
+	mkdirSync(folder, { recursive: true });
+	writeFileSync(join(folder, fileName), contents);
+}
+
+test("diagnoseSessionsRoot reports dangling links, cycles, chains and links leaving the root", (t) => {
+	const base = createTempDir(t);
+	const root = join(base, "sessions");
+	const outside = join(base, "outside");
+	mkdirSync(join(root, "real"), { recursive: true });
+	mkdirSync(outside);
+	symlinkDir(join(root, "real"), join(root, "ok"));
+	symlinkDir(join(root, "ok"), join(root, "chained"));
+	symlinkDir(join(root, "gone"), join(root, "dangling"));
+	symlinkDir(join(root, "loop-b"), join(root, "loop-a"));
+	symlinkDir(join(root, "loop-a"), join(root, "loop-b"));
+	symlinkDir(outside, join(root, "away"));
+	symlinkDir(join(base, "gone"), join(root, "cwd.bak-1000"));
+
+	const issues = diagnoseSessionsRoot(root);
+
+	assert.deepEqual(
+		issues.map((issue) => [issue.name, issue.kind, issue.fix]),
+		[
+			["away", "outside-root", "unlink-copy"],
+			["chained", "chain", "relink-final"],
+			["dangling", "dangling", "remove-link"],
+			["loop-a", "cycle", "remove-link"],
+			["loop-b", "cycle", "remove-link"],
+		],
+	);
+	assert.match(describeDoctorIssue(issues[1]!), /^chained: chain of 2 links ending at /);
+	assert.deepEqual(diagnoseSessionsRoot(join(base, "missing")), []);
+});
+
+test("doctor fixes relink chains, remove broken links and copy outside sessions in", (t) => {
+	const base = createTempDir(t);
+	const root = join(base, "sessions");
+	const outside = join(base, "outside");
+	writeSessionFile(join(root, "real"), "r.jsonl", "real");
+	writeSessionFile(outside, "o.jsonl", "outside");
+	symlinkDir(join(root, "real"), join(root, "ok"));
+	symlinkDir(join(root, "ok"), join(root, "chained"));
+	symlinkDir(join(root, "gone"), join(root, "dangling"));
+	symlinkDir(outside, join(root, "away"));
+
+	for (const issue of diagnoseSessionsRoot(root)) {
+		createDoctorFixTransaction(issue).commit();
+	}
+
+	assert.equal(readSymlinkTarget(join(root, "chained")), join(root, "real"));
+	assert.equal(getPathKind(join(root, "dangling")), "missing");
+	assert.equal(getPathKind(join(root, "away")), "directory");
+	assert.equal(readFileSync(join(root, "away", "o.jsonl"), "utf8"), "outside");
+	assert.deepEqual(readdirSync(outside), ["o.jsonl"]);
+	assert.deepEqual(diagnoseSessionsRoot(root), []);
+});
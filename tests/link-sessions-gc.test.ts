@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import { readBundle } from "../extensions/link-sessions-bundle.ts";
+import { getPathKind, getTrashDir } from "../extensions/link-sessions-core.ts";
+import { type FolderStats, collectFolderStats } from "../extensions/link-sessions-dashboard.ts";
+import { createGcTransaction, findGcCandidates, getArchivePath } from "../extensions/link-sessions-gc.ts";
+import {
+	createUndoTransaction,
+	describePathState,
+	getJournalPath,
+	journalTransaction,
+	readJournal,
+} from "../extensions/link-sessions-journal.ts";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-gc-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function writeSession(folder: string, fileName: string, cwd: string): void {
+	mkdirSync(folder, { recursive: true });
+	writeFileSync(join(folder, fileName), `${JSON.stringify({ type: "session", id: fileName, cwd })}\n`);
+}
+
+function folderStats(name: string, overrides: Partial<FolderStats>): FolderStats {
+	return {
+		name,
+		path: `/sessions/${name}`,
+		status: "directory",
+		size: 100,
+		sessionCount: 1,
+		lastActivity: new Date(),
+		inboundLinks: 0,
+		cwd: `/home/alice/${name}`,
+		cwdSource: "recorded",
+		cwdExists: true,
+		...overrides,
+	};
+}
+
+test("findGcCandidates picks folders with a missing cwd, no sessions or no recent activity", () => {
+	const now = Date.now();
+	const stats = [
+		folderStats("active", {}),
+		folderStats("moved", { cwdExists: false }),
+		folderStats("empty", { sessionCount: 0, size: 0, lastActivity: undefined }),
+		folderStats("old", { lastActivity: new Date(now - 200 * DAY_MS), cwdExists: false }),
+		folderStats("linked-to", { cwdExists: false, inboundLinks: 1 }),
+		folderStats("link", { status: "symlink", cwdExists: false }),
+		folderStats("dangling", { status: "dangling", sessionCount: 0 }),
+		folderStats("current", { cwdExists: false }),
+	];
+
+	const candidates = findGcCandidates(stats, { staleDays: 180, keep: ["/sessions/current"], now });
+	assert.deepEqual(
+		candidates.map((candidate) => [candidate.folder.name, candidate.reasons]),
+		[
+			["moved", ["missing-cwd"]],
+			["empty", ["empty"]],
+			["old", ["missing-cwd", "stale"]],
+		],
+	);
+	assert.deepEqual(
+		findGcCandidates([stats[3]!], { staleDays: 0, now }).map((candidate) => candidate.reasons),
+		[["missing-cwd"]],
+	);
+});
+
+test("createGcTransaction archives the sessions and trashes the folder on commit", (t) => {
+	const root = createTempDir(t);
+	const archiveDir = join(root, "archive");
+	const folderPath = join(root, "--home-alice-gone--");
+	writeSession(folderPath, "a.jsonl", "/home/alice/gone");
+	writeSession(folderPath, "b.jsonl", "/home/alice/gone");
+	const [folder] = collectFolderStats(root);
+
+	const rolledBack = createGcTransaction(folder!, "archive", archiveDir);
+	assert.equal(rolledBack.archivePath, join(archiveDir, "--home-alice-gone--.pi-sessions"));
+	assert.equal(getPathKind(folderPath), "missing");
+	rolledBack.rollback();
+	assert.deepEqual(readdirSync(folderPath).sort(), ["a.jsonl", "b.jsonl"]);
+	assert.deepEqual(readdirSync(archiveDir), []);
+
+	const transaction = createGcTransaction(folder!, "archive", archiveDir);
+	transaction.commit();
+	assert.equal(getPathKind(folderPath), "missing");
+	assert.equal(transaction.trashPath?.startsWith(getTrashDir(root)), true);
+	assert.deepEqual(readdirSync(transaction.trashPath!).sort(), ["a.jsonl", "b.jsonl"]);
+	const bundle = readBundle(transaction.archivePath!);
+	assert.equal(bundle.manifest.sourceFolder, "--home-alice-gone--");
+	assert.deepEqual([...bundle.files.keys()].sort(), ["a.jsonl", "b.jsonl"]);
+	assert.equal(getArchivePath(archiveDir, folder!.name), join(archiveDir, "--home-alice-gone---1.pi-sessions"));
+});
+
+test("a folder deleted by gc can be undone from the history", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const folderPath = join(root, "--home-alice-gone--");
+	writeSession(folderPath, "a.jsonl", "/home/alice/gone");
+	const [folder] = collectFolderStats(root);
+
+	const previous = describePathState(folderPath);
+	const transaction = createGcTransaction(folder!, "delete", join(root, "archive"));
+	assert.equal(transaction.archivePath, undefined);
+	journalTransaction(transaction, journalPath, { action: "gc", currentDir: folderPath, previous }).commit();
+	assert.equal(existsSync(join(root, "archive")), false);
+	assert.equal(getPathKind(folderPath), "missing");
+
+	const [entry] = readJournal(journalPath);
+	assert.equal(entry?.action, "gc");
+	createUndoTransaction(entry!).commit();
+	assert.deepEqual(readdirSync(folderPath), ["a.jsonl"]);
+});
@@ -0,0 +1,169 @@
+import assert from "node:assert/strict";
+import {
+	appendFileSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	renameSync,
+	rmSync,
+	symlinkSync,
+	unlinkSync,
+	utimesSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import { listFolderChoices } from "../extensions/link-sessions-core.ts";
+import { createSessionIndex, parseSessionSummary } from "../extensions/link-sessions-index.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-index-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function sessionContents(id: string, cwd: string, messages: Array<[string, string]>, name?: string): string {
+	const lines: unknown[] = [{ type: "session", id, cwd }];
+	for (const [role, content] of messages) {
+		lines.push({ type: "message", message: { role, content } });
+	}
+	if (name) lines.push({ type: "session_info", name });
+	return `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`;
+}
+
+function writeSession(folder: string, fileName: string, contents: string, mtimeSeconds?: number): string {
+	mkdirSync(folder, { recursive: true });
+	const path = join(folder, fileName);
+	writeFileSync(path, contents);
+	if (mtimeSeconds !== undefined) utimesSync(path, mtimeSeconds, mtimeSeconds);
+	return path;
+}
+
+test("parseSessionSummary reads id, cwd, name, first message and message count", () => {
+	const summary = parseSessionSummary(
+		sessionContents(
+			"s1",
+			"/home/alice/x",
+			[
+				["assistant", "hello"],
+				["user", "fix the build"],
+				["user", "and the tests"],
+			],
+			"Build fixes",
+		),
+	);
+
+	assert.deepEqual(summary, {
+		id: "s1",
+		cwd: "/home/alice/x",
+		name: "Build fixes",
+		firstMessage: "fix the build",
+		messageCount: 3,
+	});
+	assert.equal(parseSessionSummary("not a session"), undefined);
+});
+
+test("createSessionIndex persists summaries and rereads only changed files", async (t) => {
+	const root = createTempDir(t);
+	const folder = join(root, "sessions", "--a--");
+	const indexPath = join(root, "index.json");
+	const first = writeSession(folder, "1.jsonl", sessionContents("s1", "/a", [["user", "one"]]), 1_000);
+	writeSession(folder, "2.jsonl", sessionContents("s2", "/a", [["user", "two"]]), 2_000);
+
+	const index = createSessionIndex(indexPath);
+	assert.deepEqual(
+		(await index.loadFolder(folder)).map((session) => session.id),
+		["s2", "s1"],
+	);
+	index.save();
+
+	// A stale entry is replaced once the file grows.
+	appendFileSync(first, `${JSON.stringify({ type: "message", message: { role: "assistant", content: "reply" } })}\n`);
+	utimesSync(first, 3_000, 3_000);
+	const reopened = createSessionIndex(indexPath);
+	const sessions = await reopened.loadFolder(folder);
+	assert.deepEqual(
+		sessions.map((session) => [session.id, session.messageCount]),
+		[
+			["s1", 2],
+			["s2", 1],
+		],
+	);
+
+	// Removed files drop out of the index.
+	unlinkSync(first);
+	assert.deepEqual(
+		(await reopened.loadFolder(folder)).map((session) => session.id),
+		["s2"],
+	);
+});
+
+test("createSessionIndex ignores a corrupt index file", async (t) => {
+	const root = createTempDir(t);
+	const folder = join(root, "--a--");
+	const indexPath = join(root, "index.json");
+	writeFileSync(indexPath, "{ not json");
+	writeSession(folder, "1.jsonl", sessionContents("s1", "/a", [["user", "one"]]));
+
+	const index = createSessionIndex(indexPath);
+	assert.equal((await index.loadFolder(folder)).length, 1);
+	index.save();
+	assert.equal((await createSessionIndex(indexPath).loadFolder(folder))[0]?.id, "s1");
+});
+
+test("save drops entries of folders that no longer exist", async (t) => {
+	const root = createTempDir(t);
+	const kept = join(root, "--kept--");
+	const removed = join(root, "--removed--");
+	const indexPath = join(root, "index.json");
+	writeSession(kept, "1.jsonl", sessionContents("s1", "/a", [["user", "one"]]));
+	writeSession(removed, "2.jsonl", sessionContents("s2", "/b", [["user", "two"]]));
+
+	const index = createSessionIndex(indexPath);
+	await index.loadFolder(kept);
+	await index.loadFolder(removed);
+	index.save();
+	renameSync(removed, join(root, "--renamed--"));
+
+	createSessionIndex(indexPath).save();
+	const sessions = JSON.parse(readFileSync(indexPath, "utf8")).sessions as Array<{ id: string }>;
+	assert.deepEqual(sessions.map((session) => session.id), ["s1"]);
+});
+
+test("summarizeFolder describes folders from stats and fresh entries only", async (t) => {
+	const root = createTempDir(t);
+	const folder = join(root, "--a--");
+	const path = writeSession(folder, "1.jsonl", sessionContents("s1", "/home/alice/a", [["user", "one"]]), 5_000);
+	symlinkSync(folder, join(root, "--link--"), "dir");
+	const index = createSessionIndex(join(root, "index.json"));
+
+	assert.deepEqual(index.summarizeFolder(folder), { sessionCount: 1, lastModified: new Date(5_000_000), cwd: undefined });
+
+	await index.loadFolder(join(root, "--link--"));
+	assert.equal(index.summarizeFolder(folder).cwd, "/home/alice/a");
+
+	appendFileSync(path, "\n");
+	assert.equal(index.summarizeFolder(folder).cwd, undefined);
+});
+
+test("listFolderChoices orders folders by recent activity when given an index", (t) => {
+	const root = createTempDir(t);
+	writeSession(join(root, "--a--"), "1.jsonl", sessionContents("s1", "/a", []), 1_000);
+	writeSession(join(root, "--b--"), "1.jsonl", sessionContents("s2", "/b", []), 3_000);
+	writeSession(join(root, "--c--"), "1.jsonl", sessionContents("s3", "/c", []), 2_000);
+	const index = createSessionIndex(join(root, "index.json"));
+
+	assert.deepEqual(
+		listFolderChoices(root, "--none--").map((choice) => choice.name),
+		["--a--", "--b--", "--c--"],
+	);
+	const choices = listFolderChoices(root, "--none--", [], index);
+	assert.deepEqual(
+		choices.map((choice) => choice.name),
+		["--b--", "--c--", "--a--"],
+	);
+	assert.deepEqual(choices[0]?.lastModified, new Date(3_000_000));
+});
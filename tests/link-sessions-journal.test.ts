@@ -0,0 +1,233 @@
+import assert from "node:assert/strict";
+import { appendFileSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, readlinkSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import {
+	createLinkTransaction,
+	createRelativeLinksTransaction,
+	createUnlinkTransaction,
+	findAbsoluteLinks,
+	getPathKind,
+	getTrashDir,
+	readSymlinkTarget,
+} from "../extensions/link-sessions-core.ts";
+import {
+	appendJournalEntry,
+	createJournalEntry,
+	createUndoTransaction,
+	describePathState,
+	formatJournalEntry,
+	getJournalPath,
+	journalTransaction,
+	readJournal,
+} from "../extensions/link-sessions-journal.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-journal-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function symlinkDir(target: string, linkPath: string): void {
+	const symlinkType = process.platform === "win32" ? "junction" : "dir";
+	symlinkSync(target, linkPath, symlinkType);
+}
+
+function writeSessionFile(folder: string, fileName: string, contents: string): void {
+	mkdirSync(folder, { recursive: true });
+	writeFileSync(join(folder, fileName), contents);
+}
+
+function link(journalPath: string, current: string, target: string): void {
+	const previous = describePathState(current);
+	journalTransaction(createLinkTransaction(current, target), journalPath, {
+		action: "link",
+		currentDir: current,
+		previous,
+	}).commit();
+}
+
+test("journalTransaction appends an entry on commit and nothing on rollback", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSessionFile(target, "t.jsonl", "target");
+
+	const previous = describePathState(current);
+	journalTransaction(createLinkTransaction(current, target), journalPath, {
+		action: "link",
+		currentDir: current,
+		previous,
+	}).rollback();
+	assert.deepEqual(readJournal(journalPath), []);
+
+	link(journalPath, current, target);
+
+	const entries = readJournal(journalPath);
+	assert.equal(entries.length, 1);
+	assert.equal(entries[0]?.action, "link");
+	assert.equal(entries[0]?.previousKind, "missing");
+	assert.equal(entries[0]?.resultKind, "symlink");
+	assert.equal(entries[0]?.target, target);
+	assert.match(formatJournalEntry(entries[0]!, 0), /^1\. \d{4}-\d{2}-\d{2} \d{2}:\d{2} link cwd-current \(missing\) ⇒ → .*cwd-target by /);
+});
+
+test("readJournal skips malformed lines", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	appendFileSync(journalPath, 'not json\n{"id":1}\n\n');
+
+	assert.deepEqual(readJournal(journalPath), []);
+	assert.deepEqual(readJournal(join(root, "missing.jsonl")), []);
+});
+
+test("createUndoTransaction restores the previous symlink target", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const current = join(root, "cwd-current");
+	const oldTarget = join(root, "cwd-old");
+	const newTarget = join(root, "cwd-new");
+	writeSessionFile(oldTarget, "old.jsonl", "old");
+	writeSessionFile(newTarget, "new.jsonl", "new");
+	symlinkDir(oldTarget, current);
+
+	link(journalPath, current, newTarget);
+	const [entry] = readJournal(journalPath);
+
+	createUndoTransaction(entry!).commit();
+
+	assert.equal(readSymlinkTarget(current), oldTarget);
+	assert.equal(readFileSync(join(current, "old.jsonl"), "utf8"), "old");
+});
+
+test("createUndoTransaction removes a link that replaced a missing path", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSessionFile(target, "t.jsonl", "target");
+
+	link(journalPath, current, target);
+	const [entry] = readJournal(journalPath);
+
+	const tx = createUndoTransaction(entry!);
+	assert.equal(getPathKind(current), "missing");
+	tx.rollback();
+	assert.equal(getPathKind(current), "symlink");
+});
+
+test("createUndoTransaction refuses when the folder changed since the entry", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const current = join(root, "cwd-current");
+	const first = join(root, "cwd-first");
+	const second = join(root, "cwd-second");
+	mkdirSync(first);
+	mkdirSync(second);
+
+	link(journalPath, current, first);
+	const [entry] = readJournal(journalPath);
+	createLinkTransaction(current, second).commit();
+
+	assert.throws(() => createUndoTransaction(entry!), /has changed since/);
+});
+
+test("createUndoTransaction restores a replaced directory from the trash", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSessionFile(current, "c.jsonl", "current");
+	mkdirSync(target);
+
+	link(journalPath, current, target);
+	const [entry] = readJournal(journalPath);
+	assert.equal(entry?.previousKind, "directory");
+	assert.equal(entry?.backupPath?.startsWith(getTrashDir(root)), true);
+
+	createUndoTransaction(entry!).commit();
+	assert.equal(getPathKind(current), "directory");
+	assert.equal(readFileSync(join(current, "c.jsonl"), "utf8"), "current");
+});
+
+test("createUndoTransaction cannot restore a directory that was purged from the trash", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSessionFile(current, "c.jsonl", "current");
+	mkdirSync(target);
+
+	link(journalPath, current, target);
+	const [entry] = readJournal(journalPath);
+	rmSync(getTrashDir(root), { recursive: true, force: true });
+
+	assert.throws(() => createUndoTransaction(entry!), /no longer in the trash/);
+});
+
+test("createUndoTransaction recreates a replaced directory that held no sessions", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	mkdirSync(current);
+	writeSessionFile(target, "t.jsonl", "target");
+
+	link(journalPath, current, target);
+	const [entry] = readJournal(journalPath);
+	assert.equal(entry?.previousKind, "directory");
+	assert.equal(entry?.backupEmpty, true);
+	assert.equal(entry?.backupPath, undefined);
+
+	createUndoTransaction(entry!).commit();
+	assert.equal(getPathKind(current), "directory");
+	assert.deepEqual(readdirSync(current), []);
+	assert.equal(readFileSync(join(target, "t.jsonl"), "utf8"), "target");
+});
+
+test("undoing a move-mode unlink relinks and merges the sessions back", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSessionFile(target, "a.jsonl", "session-a");
+	symlinkDir(target, current);
+
+	const previous = describePathState(current);
+	journalTransaction(createUnlinkTransaction(current, "move"), journalPath, {
+		action: "unlink",
+		currentDir: current,
+		previous,
+	}).commit();
+	writeSessionFile(current, "b.jsonl", "session-b");
+
+	const [entry] = readJournal(journalPath);
+	createUndoTransaction(entry!).commit();
+
+	assert.equal(getPathKind(current), "symlink");
+	assert.deepEqual(readdirSync(target).sort(), ["a.jsonl", "b.jsonl"]);
+});
+
+test("undoing a relativize entry restores the absolute link", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSessionFile(target, "t.jsonl", "target");
+	symlinkDir(target, current);
+
+	const [absolute] = findAbsoluteLinks(root);
+	const previous = describePathState(current);
+	createRelativeLinksTransaction([absolute!]).commit();
+	appendJournalEntry(journalPath, createJournalEntry({ action: "relativize", currentDir: current, previous }));
+	const [entry] = readJournal(journalPath);
+	assert.equal(entry?.previousRelative, false);
+
+	createUndoTransaction(entry!).commit();
+
+	assert.equal(readlinkSync(current), target);
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import { type FolderChoice, listFolderChoices } from "../extensions/link-sessions-core.ts";
+import {
+	filterFolderChoices,
+	getFolderLabelsPath,
+	loadFolderChoiceLabels,
+	parseTags,
+	readFolderLabels,
+	saveFolderLabel,
+} from "../extensions/link-sessions-labels.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-labels-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function folderChoice(root: string, name: string, overrides: Partial<FolderChoice> = {}): FolderChoice {
+	return { name, path: join(root, name), sessionCount: 1, isCurrent: false, isSuggested: false, ...overrides };
+}
+
+test("parseTags splits on commas and spaces and drops # and duplicates", () => {
+	assert.deepEqual(parseTags("#api, work  api,,#"), ["api", "work"]);
+	assert.deepEqual(parseTags("  "), []);
+});
+
+test("saveFolderLabel keeps other folders' labels and removes empty ones", (t) => {
+	const root = createTempDir(t);
+	mkdirSync(join(root, "--a--"));
+
+	saveFolderLabel(root, "--a--", { label: " API ", tags: ["work"], note: "" });
+	saveFolderLabel(root, "--b--", { tags: ["old"] });
+	assert.deepEqual(readFolderLabels(root).get("--a--"), { label: "API", tags: ["work"], note: undefined });
+	assert.deepEqual([...readFolderLabels(root).keys()], ["--a--", "--b--"]);
+
+	const labels = saveFolderLabel(root, "--b--", { label: "  ", tags: [] });
+	assert.deepEqual([...labels.keys()], ["--a--"]);
+	assert.deepEqual(Object.keys(JSON.parse(readFileSync(getFolderLabelsPath(root), "utf8")).folders), ["--a--"]);
+	assert.deepEqual(
+		listFolderChoices(root, "--a--").map((choice) => choice.name),
+		["--a--"],
+	);
+});
+
+test("readFolderLabels ignores a malformed file and malformed entries", (t) => {
+	const root = createTempDir(t);
+	writeFileSync(getFolderLabelsPath(root), "{not json");
+	assert.equal(readFolderLabels(root).size, 0);
+
+	writeFileSync(
+		getFolderLabelsPath(root),
+		JSON.stringify({ folders: { "--a--": { label: 3, tags: ["x", 4], note: "n" }, "--b--": "label", "--c--": {} } }),
+	);
+	assert.deepEqual([...readFolderLabels(root).entries()], [["--a--", { label: undefined, tags: ["x"], note: "n" }]]);
+});
+
+test("filterFolderChoices matches labels, tags and notes from each folder's own root", (t) => {
+	const root = createTempDir(t);
+	const extraRoot = createTempDir(t);
+	saveFolderLabel(root, "--Users-alice-src-monorepo-packages-api--", { label: "Monorepo API", tags: ["work"] });
+	saveFolderLabel(extraRoot, "--home-bob-blog--", { tags: ["personal"], note: "Migrated to Hugo" });
+	const choices = [
+		folderChoice(root, "--Users-alice-src-monorepo-packages-api--"),
+		folderChoice(root, "--home-bob-blog--"),
+		folderChoice(extraRoot, "--home-bob-blog--", { root: "backup" }),
+	];
+
+	const labels = loadFolderChoiceLabels(choices);
+	assert.deepEqual([...labels.keys()], [choices[0]!.path, choices[2]!.path]);
+
+	const names = (filter: string) => filterFolderChoices(choices, labels, filter).map((choice) => choice.path);
+	assert.deepEqual(names("monorepo api"), [choices[0]!.path]);
+	assert.deepEqual(names("#work"), [choices[0]!.path]);
+	assert.deepEqual(names("hugo"), [choices[2]!.path]);
+	assert.deepEqual(names("blog"), [choices[1]!.path, choices[2]!.path]);
+	assert.deepEqual(names(""), choices.map((choice) => choice.path));
+});
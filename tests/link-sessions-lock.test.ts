@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { spawn, spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import { listFolderChoices } from "../extensions/link-sessions-core.ts";
+import {
+	REMOTE_STALE_MS,
+	acquireSessionsLock,
+	clearSessionPresence,
+	findOtherSessionsInFolder,
+	getLockPath,
+	isLockStale,
+	recordSessionPresence,
+} from "../extensions/link-sessions-lock.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-lock-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+/** Pid of a process that has already exited. */
+function deadPid(): number {
+	return spawnSync(process.execPath, ["-e", ""]).pid!;
+}
+
+function writeLock(sessionsRoot: string, owner: Record<string, unknown>): void {
+	writeFileSync(getLockPath(sessionsRoot), JSON.stringify({ user: "someone", purpose: "link", ...owner }));
+}
+
+test("acquireSessionsLock holds the lock until it is released", (t) => {
+	const root = createTempDir(t);
+
+	const lock = acquireSessionsLock(root, "link");
+	assert.equal(existsSync(lock.path), true);
+	assert.throws(() => acquireSessionsLock(root, "undo"), /already changing session folders/);
+
+	lock.release();
+	lock.release();
+	assert.equal(existsSync(lock.path), false);
+
+	acquireSessionsLock(root, "undo").release();
+});
+
+test("acquireSessionsLock refuses a lock held by another live process", (t) => {
+	const root = createTempDir(t);
+	writeLock(root, { pid: process.ppid, host: hostname(), acquiredAt: new Date().toISOString() });
+
+	assert.throws(() => acquireSessionsLock(root, "link"), new RegExp(`pid ${process.ppid}`));
+	assert.equal(isLockStale(getLockPath(root)), false);
+});
+
+test("acquireSessionsLock takes over stale locks", (t) => {
+	const root = createTempDir(t);
+	writeLock(root, { pid: deadPid(), host: hostname(), acquiredAt: new Date().toISOString() });
+	assert.equal(isLockStale(getLockPath(root)), true);
+
+	const lock = acquireSessionsLock(root, "link");
+	assert.equal(lock.owner.pid, process.pid);
+	lock.release();
+
+	const remoteAcquiredAt = new Date(Date.now() - REMOTE_STALE_MS - 1000).toISOString();
+	writeLock(root, { pid: 1, host: "elsewhere.invalid", acquiredAt: remoteAcquiredAt });
+	acquireSessionsLock(root, "link").release();
+});
+
+test("only one of several processes taking over the same stale lock gets it", async (t) => {
+	const root = createTempDir(t);
+	writeLock(root, { pid: deadPid(), host: hostname(), acquiredAt: new Date().toISOString() });
+	const goPath = join(root, "go");
+	const donePath = join(root, "done");
+	const moduleUrl = new URL("../extensions/link-sessions-lock.ts", import.meta.url).href;
+	// Each child waits for the go file, tries to lock, and keeps a lock it got until the done file appears.
+	const script = `
+		import { existsSync } from "node:fs";
+		const { acquireSessionsLock } = await import(${JSON.stringify(moduleUrl)});
+		const wait = (path) => { while (!existsSync(path)) Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 5); };
+		wait(${JSON.stringify(goPath)});
+		try {
+			acquireSessionsLock(${JSON.stringify(root)}, "link");
+			console.log("acquired");
+			wait(${JSON.stringify(donePath)});
+		} catch {
+			console.log("busy");
+		}
+	`;
+
+	const children = Array.from({ length: 3 }, () => {
+		const child = spawn(process.execPath, ["--experimental-strip-types", "--input-type=module", "-e", script]);
+		let output = "";
+		child.stdout.on("data", (chunk) => {
+			output += chunk;
+		});
+		const exited = new Promise<void>((resolve) => child.on("exit", () => resolve()));
+		return { child, exited, output: () => output.trim() };
+	});
+	t.after(() => {
+		for (const { child } of children) child.kill();
+	});
+
+	writeFileSync(goPath, "");
+	const deadline = Date.now() + 30_000;
+	while (children.some(({ output }) => output() === "") && Date.now() < deadline) {
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+	writeFileSync(donePath, "");
+	await Promise.all(children.map(({ exited }) => exited));
+
+	assert.deepEqual(children.map(({ output }) => output()).sort(), ["acquired", "busy", "busy"]);
+	assert.deepEqual(readdirSync(root).filter((name) => name.includes(".stale-")), []);
+});
+
+test("release leaves a lock alone once another process has taken it over", (t) => {
+	const root = createTempDir(t);
+	const lock = acquireSessionsLock(root, "link");
+	writeLock(root, { pid: process.ppid, host: hostname(), acquiredAt: new Date().toISOString() });
+
+	lock.release();
+	assert.equal(existsSync(getLockPath(root)), true);
+});
+
+test("findOtherSessionsInFolder reports live processes with a session open in the folder", (t) => {
+	const root = createTempDir(t);
+	const folder = join(root, "--home-alice-project--");
+	mkdirSync(folder);
+	const presence = (pid: number, host: string, sessionDir: string, updatedAt = new Date().toISOString()) =>
+		writeFileSync(
+			join(root, `.link-sessions-presence-${host}-${pid}.json`),
+			JSON.stringify({ pid, host, user: "someone", sessionDir, updatedAt }),
+		);
+
+	recordSessionPresence(root, folder, join(folder, "session.jsonl"));
+	assert.deepEqual(findOtherSessionsInFolder(root, folder), []);
+
+	presence(process.ppid, hostname(), folder);
+	presence(deadPid(), hostname(), folder);
+	presence(process.ppid + 100000, "elsewhere.invalid", folder);
+	presence(7, "old.invalid", folder, new Date(Date.now() - REMOTE_STALE_MS - 1000).toISOString());
+	presence(process.ppid, "other-folder.invalid", join(root, "--home-alice-other--"));
+
+	const others = findOtherSessionsInFolder(root, folder);
+	assert.deepEqual(
+		others.map((other) => other.host).sort(),
+		["elsewhere.invalid", hostname()].sort(),
+	);
+
+	clearSessionPresence(root);
+	assert.equal(readdirSync(root).filter((name) => name.includes(`-${process.pid}.json`)).length, 0);
+	assert.deepEqual(
+		listFolderChoices(root, "--home-alice-project--").map((choice) => choice.name),
+		["--home-alice-project--"],
+	);
+});
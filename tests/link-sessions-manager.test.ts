@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import { type FolderChoice, getPathKind, getTrashDir, readSessionHeader } from "../extensions/link-sessions-core.ts";
+import {
+	createUndoTransaction,
+	describePathState,
+	describeUndoChange,
+	formatJournalEntry,
+	getJournalPath,
+	journalTransaction,
+	readJournal,
+} from "../extensions/link-sessions-journal.ts";
+import { readFolderLabels, saveFolderLabel } from "../extensions/link-sessions-labels.ts";
+import {
+	createDeleteFolderTransaction,
+	createRenameFolderTransaction,
+	duplicateSessionFolder,
+	findInboundLinks,
+	getFolderActions,
+	sortFolderChoices,
+} from "../extensions/link-sessions-manager.ts";
+import { createMirrorTransaction } from "../extensions/link-sessions-mirror.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-manager-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function writeSessionFile(folder: string, fileName: string, contents: string): void {
+	mkdirSync(folder, { recursive: true });
+	writeFileSync(join(folder, fileName), contents);
+}
+
+function folderChoice(root: string, name: string, overrides: Partial<FolderChoice> = {}): FolderChoice {
+	return { name, path: join(root, name), sessionCount: 1, isCurrent: false, isSuggested: false, ...overrides };
+}
+
+test("sortFolderChoices sorts by name or session count within each root", () => {
+	const choices = [
+		folderChoice("/sessions", "--b--", { sessionCount: 1 }),
+		folderChoice("/sessions", "--a--", { sessionCount: 1 }),
+		folderChoice("/sessions", "--c--", { sessionCount: 5 }),
+		folderChoice("/backup", "--a--", { sessionCount: 9, root: "backup" }),
+	];
+	const names = (sort: Parameters<typeof sortFolderChoices>[1]) =>
+		sortFolderChoices(choices, sort).map((choice) => `${choice.root ?? ""}/${choice.name}`);
+
+	assert.deepEqual(names("recent"), ["/--b--", "/--a--", "/--c--", "backup/--a--"]);
+	assert.deepEqual(names("name"), ["/--a--", "/--b--", "/--c--", "backup/--a--"]);
+	assert.deepEqual(names("sessions"), ["/--c--", "/--a--", "/--b--", "backup/--a--"]);
+});
+
+test("getFolderActions offers only what applies to the folder", (t) => {
+	const root = createTempDir(t);
+	writeSessionFile(join(root, "--target--"), "a.jsonl", "a");
+	symlinkSync(join(root, "--target--"), join(root, "--link--"), "dir");
+
+	assert.deepEqual(getFolderActions(folderChoice(root, "--target--")), ["open", "rename", "duplicate", "delete"]);
+	assert.deepEqual(getFolderActions(folderChoice(root, "--link--")), ["open", "unlink", "rename", "duplicate", "delete"]);
+	assert.deepEqual(getFolderActions(folderChoice(root, "--link--", { isCurrent: true })), ["unlink", "duplicate"]);
+	assert.deepEqual(getFolderActions(folderChoice(root, "--target--", { root: "backup" })), ["open"]);
+	assert.deepEqual(getFolderActions(folderChoice(root, "--empty--", { sessionCount: 0 })), ["rename", "delete"]);
+});
+
+test("createRenameFolderTransaction moves the label and refuses folders that are linked to", (t) => {
+	const root = createTempDir(t);
+	const folder = join(root, "--old--");
+	const renamed = join(root, "--new--");
+	writeSessionFile(folder, "a.jsonl", "a");
+	saveFolderLabel(root, "--old--", { label: "Old project", tags: ["work"] });
+
+	assert.throws(() => createRenameFolderTransaction(folder, "a/b"), /Not a valid folder name/);
+	assert.throws(() => createRenameFolderTransaction(folder, "--old--.bak-1"), /reserved/);
+	mkdirSync(join(root, "--taken--"));
+	assert.throws(() => createRenameFolderTransaction(folder, "--taken--"), /already exists/);
+
+	createRenameFolderTransaction(folder, "--new--").rollback();
+	assert.equal(getPathKind(folder), "directory");
+	assert.equal(getPathKind(renamed), "missing");
+
+	createRenameFolderTransaction(folder, "--new--").commit();
+	assert.deepEqual(readdirSync(renamed), ["a.jsonl"]);
+	assert.equal(getPathKind(folder), "missing");
+	assert.deepEqual([...readFolderLabels(root).entries()], [["--new--", { label: "Old project", tags: ["work"], note: undefined }]]);
+
+	symlinkSync(renamed, join(root, "--link--"), "dir");
+	assert.deepEqual(findInboundLinks(renamed), ["--link--"]);
+	assert.throws(() => createRenameFolderTransaction(renamed, "--newer--"), /while --link-- link to it/);
+});
+
+test("a journaled rename can be undone, and so can its undo", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const folder = join(root, "--old--");
+	const renamed = join(root, "--new--");
+	writeSessionFile(folder, "a.jsonl", "a");
+
+	const previous = describePathState(folder);
+	journalTransaction(createRenameFolderTransaction(folder, "--new--"), journalPath, {
+		action: "rename",
+		currentDir: folder,
+		previous,
+		renamedTo: renamed,
+	}).commit();
+	const [entry] = readJournal(journalPath);
+	assert.equal(entry?.renamedTo, renamed);
+	assert.match(formatJournalEntry(entry!, 0), /rename --old-- ⇒ --new--/);
+
+	const change = describeUndoChange(entry!);
+	journalTransaction(createUndoTransaction(entry!), journalPath, change).commit();
+	assert.deepEqual(readdirSync(folder), ["a.jsonl"]);
+	assert.equal(getPathKind(renamed), "missing");
+
+	const undo = readJournal(journalPath)[1];
+	assert.equal(undo?.undoes, entry?.id);
+	createUndoTransaction(undo!).commit();
+	assert.deepEqual(readdirSync(renamed), ["a.jsonl"]);
+	assert.equal(getPathKind(folder), "missing");
+
+	mkdirSync(folder);
+	assert.throws(() => createUndoTransaction(entry!), /has changed since/);
+});
+
+test("duplicateSessionFolder copies the sessions seen through a link into a new real folder with new ids", (t) => {
+	const root = createTempDir(t);
+	const header = { type: "session", id: "session-a", cwd: "/project", timestamp: "2024-01-01T00:00:00.000Z" };
+	writeSessionFile(join(root, "--target--"), "a.jsonl", `${JSON.stringify(header)}\n{"type":"message"}\n`);
+	symlinkSync(join(root, "--target--"), join(root, "--link--"), "dir");
+	saveFolderLabel(root, "--link--", { label: "API", tags: [] });
+
+	const copy = duplicateSessionFolder(join(root, "--link--"));
+	assert.equal(copy, join(root, "--link---copy"));
+	assert.equal(getPathKind(copy), "directory");
+	const [copyName] = readdirSync(copy);
+	const copyHeader = readSessionHeader(join(copy, copyName!));
+	assert.notEqual(copyHeader?.id, "session-a");
+	assert.equal(copyName?.endsWith(`_${copyHeader?.id}.jsonl`), true);
+	assert.equal(copyHeader?.cwd, "/project");
+	assert.match(readFileSync(join(copy, copyName!), "utf8"), /\n\{"type":"message"\}\n$/);
+	assert.equal(readSessionHeader(join(root, "--target--", "a.jsonl"))?.id, "session-a");
+	assert.equal(readFolderLabels(root).get("--link---copy")?.label, "API (copy)");
+	assert.equal(duplicateSessionFolder(join(root, "--link--")), join(root, "--link---copy-2"));
+	assert.throws(() => duplicateSessionFolder(join(root, "--missing--")), /no sessions to duplicate/);
+});
+
+test("createDeleteFolderTransaction trashes a folder unless another folder mirrors it", (t) => {
+	const root = createTempDir(t);
+	const target = join(root, "--target--");
+	const mirror = join(root, "--mirror--");
+	writeSessionFile(target, "a.jsonl", "session-a");
+	createMirrorTransaction(mirror, target).commit();
+
+	assert.throws(() => createDeleteFolderTransaction(target), /while --mirror-- link to it/);
+
+	const rolledBack = createDeleteFolderTransaction(mirror);
+	rolledBack.rollback();
+	assert.equal(getPathKind(mirror), "directory");
+
+	const transaction = createDeleteFolderTransaction(mirror);
+	transaction.commit();
+	assert.equal(getPathKind(mirror), "missing");
+	assert.equal(transaction.trashPath?.startsWith(getTrashDir(root)), true);
+	assert.deepEqual(findInboundLinks(target), []);
+});
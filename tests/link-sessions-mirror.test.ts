@@ -0,0 +1,201 @@
+import assert from "node:assert/strict";
+import {
+	appendFileSync,
+	mkdirSync,
+	mkdtempSync,
+	readdirSync,
+	readFileSync,
+	rmSync,
+	statSync,
+	symlinkSync,
+	utimesSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import {
+	MIRROR_MARKER_FILE_NAME,
+	createSessionCwdTransaction,
+	getPathKind,
+	readSymlinkTarget,
+} from "../extensions/link-sessions-core.ts";
+import {
+	createUndoTransaction,
+	describePathState,
+	getJournalPath,
+	journalTransaction,
+	readJournal,
+} from "../extensions/link-sessions-journal.ts";
+import {
+	createMirrorTransaction,
+	createMirrorUnlinkTransaction,
+	formatMirrorSyncResult,
+	readMirrorMarker,
+	syncMirror,
+} from "../extensions/link-sessions-mirror.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-mirror-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function symlinkDir(target: string, linkPath: string): void {
+	const symlinkType = process.platform === "win32" ? "junction" : "dir";
+	symlinkSync(target, linkPath, symlinkType);
+}
+
+function writeSession(folder: string, fileName: string, id: string, body = ""): string {
+	mkdirSync(folder, { recursive: true });
+	const path = join(folder, fileName);
+	writeFileSync(path, `${JSON.stringify({ type: "session", id, cwd: "/x" })}\n${body}`);
+	return path;
+}
+
+test("createMirrorTransaction copies the target's sessions and records the target", (t) => {
+	const root = createTempDir(t);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSession(target, "a.jsonl", "a");
+	writeSession(current, "old.jsonl", "old");
+
+	const tx = createMirrorTransaction(current, target);
+	assert.equal(getPathKind(current), "directory");
+	assert.deepEqual(readdirSync(current).sort(), [MIRROR_MARKER_FILE_NAME, "a.jsonl"]);
+	assert.equal(readMirrorMarker(current)?.target, target);
+
+	tx.rollback();
+	assert.deepEqual(readdirSync(current), ["old.jsonl"]);
+	assert.equal(readMirrorMarker(current), undefined);
+
+	createMirrorTransaction(current, target, { merge: true }).commit();
+	assert.deepEqual(readdirSync(target).sort(), ["a.jsonl", "old.jsonl"]);
+	assert.deepEqual(readdirSync(current).sort(), [MIRROR_MARKER_FILE_NAME, "a.jsonl", "old.jsonl"]);
+	assert.equal(readdirSync(root).some((name) => name.includes(".bak-")), false);
+});
+
+test("syncMirror matches sessions by id, follows append-only growth and flags divergence", (t) => {
+	const root = createTempDir(t);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSession(target, "grown.jsonl", "grown", "1\n");
+	writeSession(target, "split.jsonl", "split", "1\n");
+	createMirrorTransaction(current, target).commit();
+
+	appendFileSync(join(current, "grown.jsonl"), "2\n");
+	appendFileSync(join(current, "split.jsonl"), "local\n");
+	appendFileSync(join(target, "split.jsonl"), "remote\n");
+	writeSession(current, "local-name.jsonl", "new-local");
+	writeSession(target, "remote.jsonl", "new-remote");
+	writeSession(target, "local-name.jsonl", "other");
+
+	const preview = syncMirror(current, { dryRun: true });
+	assert.equal(formatMirrorSyncResult(preview), "1 pushed, 2 pulled, 1 updated, 1 diverged");
+	assert.equal(readdirSync(target).length, 4);
+
+	const result = syncMirror(current);
+	assert.deepEqual(result.pushed, ["new-local"]);
+	assert.deepEqual(result.pulled.sort(), ["new-remote", "other"]);
+	assert.deepEqual(result.updated, ["grown"]);
+	assert.deepEqual(
+		result.diverged.map((divergence) => divergence.key),
+		["split"],
+	);
+	assert.match(readFileSync(join(target, "grown.jsonl"), "utf8"), /1\n2\n$/);
+	assert.match(readFileSync(join(target, "local-name-merged-1.jsonl"), "utf8"), /new-local/);
+	assert.match(readFileSync(join(current, "local-name-merged-1.jsonl"), "utf8"), /"other"/);
+	assert.match(readFileSync(join(current, "split.jsonl"), "utf8"), /local\n$/);
+	assert.match(readFileSync(join(target, "split.jsonl"), "utf8"), /remote\n$/);
+
+	const again = syncMirror(current);
+	assert.equal(formatMirrorSyncResult(again), "1 diverged");
+});
+
+test("syncMirror trusts matching size and mtime and never replaces the active session file", (t) => {
+	const root = createTempDir(t);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSession(target, "kept.jsonl", "kept", "1\n");
+	writeSession(target, "active.jsonl", "active", "1\n");
+	createMirrorTransaction(current, target).commit();
+	const mtimeDrift = statSync(join(current, "kept.jsonl")).mtimeMs - statSync(join(target, "kept.jsonl")).mtimeMs;
+	assert.equal(Math.abs(mtimeDrift) < 1, true);
+
+	// Same size and mtime: not read, so a same-length change goes unnoticed.
+	const { atime, mtime } = statSync(join(current, "kept.jsonl"));
+	writeFileSync(join(current, "kept.jsonl"), readFileSync(join(current, "kept.jsonl"), "utf8").replace("1\n", "2\n"));
+	utimesSync(join(current, "kept.jsonl"), atime, mtime);
+	assert.equal(formatMirrorSyncResult(syncMirror(current)), "up to date");
+
+	appendFileSync(join(target, "active.jsonl"), "remote\n");
+	const activeSessionFile = join(current, "active.jsonl");
+	const result = syncMirror(current, { activeSessionFile });
+	assert.deepEqual(result.diverged.map((divergence) => divergence.key), ["active"]);
+	assert.doesNotMatch(readFileSync(activeSessionFile, "utf8"), /remote/);
+
+	assert.deepEqual(syncMirror(current).updated, ["active"]);
+	assert.match(readFileSync(activeSessionFile, "utf8"), /remote\n$/);
+});
+
+test("a mirrored session's cwd is not rewritten, so it keeps syncing", (t) => {
+	const root = createTempDir(t);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSession(target, "a.jsonl", "a", "1\n");
+	createMirrorTransaction(current, target).commit();
+
+	assert.throws(() => createSessionCwdTransaction(join(current, "a.jsonl"), "/elsewhere"), /mirrored folder/);
+	appendFileSync(join(target, "a.jsonl"), "2\n");
+	assert.deepEqual(syncMirror(current).updated, ["a"]);
+	assert.match(readFileSync(join(current, "a.jsonl"), "utf8"), /"cwd":"\/x"\}\n1\n2\n$/);
+});
+
+test("createMirrorUnlinkTransaction keeps copies or pushes local sessions before emptying", (t) => {
+	const root = createTempDir(t);
+	const current = join(root, "cwd-current");
+	const target = join(root, "cwd-target");
+	writeSession(target, "a.jsonl", "a");
+	createMirrorTransaction(current, target).commit();
+	writeSession(current, "b.jsonl", "b");
+
+	const keep = createMirrorUnlinkTransaction(current, "copy");
+	assert.equal(readMirrorMarker(current), undefined);
+	keep.rollback();
+	assert.equal(readMirrorMarker(current)?.target, target);
+
+	assert.throws(() => createMirrorUnlinkTransaction(current, "move"), /only be unlinked/);
+
+	createMirrorUnlinkTransaction(current, "empty").commit();
+	assert.deepEqual(readdirSync(current), []);
+	assert.deepEqual(readdirSync(target).sort(), ["a.jsonl", "b.jsonl"]);
+});
+
+test("undoing a mirror link restores the previous symlink without duplicating sessions", (t) => {
+	const root = createTempDir(t);
+	const journalPath = getJournalPath(root);
+	const current = join(root, "cwd-current");
+	const oldTarget = join(root, "cwd-old");
+	const newTarget = join(root, "cwd-new");
+	writeSession(oldTarget, "old.jsonl", "old");
+	writeSession(newTarget, "new.jsonl", "new");
+	symlinkDir(oldTarget, current);
+
+	const previous = describePathState(current);
+	journalTransaction(createMirrorTransaction(current, newTarget), journalPath, {
+		action: "link",
+		currentDir: current,
+		previous,
+	}).commit();
+	const [entry] = readJournal(journalPath);
+	assert.equal(entry?.mirrorOf, newTarget);
+	appendFileSync(join(current, "new.jsonl"), "more\n");
+
+	createUndoTransaction(entry!).commit();
+
+	assert.equal(readSymlinkTarget(current), oldTarget);
+	assert.deepEqual(readdirSync(oldTarget), ["old.jsonl"]);
+	assert.match(readFileSync(join(newTarget, "new.jsonl"), "utf8"), /more\n$/);
+});
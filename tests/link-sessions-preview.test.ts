@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import {
+	extractMessageText,
+	parseSessionDetails,
+	readSessionDetails,
+	selectExcerptTurns,
+} from "../extensions/link-sessions-preview.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-preview-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function sessionContents(entries: unknown[]): string {
+	const lines = [{ type: "session", id: "s1", cwd: "/home/alice/src/x" }, ...entries];
+	return `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`;
+}
+
+function message(role: string, content: unknown, model?: string): unknown {
+	return { type: "message", message: { role, content, ...(model ? { model } : {}) } };
+}
+
+test("extractMessageText joins text blocks of user and assistant messages only", () => {
+	assert.equal(extractMessageText({ role: "user", content: "hello" }), "hello");
+	assert.equal(
+		extractMessageText({
+			role: "assistant",
+			content: [
+				{ type: "text", text: "one" },
+				{ type: "toolCall", name: "bash" },
+				{ type: "text", text: "two" },
+			],
+		}),
+		"one two",
+	);
+	assert.equal(extractMessageText({ role: "toolResult", content: "output" }), "");
+	assert.equal(extractMessageText(undefined), "");
+});
+
+test("parseSessionDetails reads the cwd, latest model and last turns", () => {
+	const contents = sessionContents([
+		{ type: "model_change", modelId: "model-a" },
+		message("user", "first question"),
+		message("assistant", [{ type: "text", text: "first answer" }], "model-b"),
+		message("toolResult", "ignored"),
+		message("user", "second question"),
+		message("assistant", [{ type: "toolCall", name: "bash" }], "model-b"),
+		{ type: "model_change", modelId: "model-c" },
+		message("assistant", "second answer"),
+	]);
+
+	const details = parseSessionDetails(contents, 1234, 3);
+
+	assert.equal(details.cwd, "/home/alice/src/x");
+	assert.equal(details.model, "model-c");
+	assert.equal(details.size, 1234);
+	assert.deepEqual(details.turns, [
+		{ role: "assistant", text: "first answer" },
+		{ role: "user", text: "second question" },
+		{ role: "assistant", text: "second answer" },
+	]);
+});
+
+test("parseSessionDetails tolerates a broken header and malformed lines", () => {
+	const details = parseSessionDetails(`not json\n{broken\n${JSON.stringify(message("user", "hi"))}\n`, 10);
+
+	assert.equal(details.cwd, "");
+	assert.equal(details.model, undefined);
+	assert.deepEqual(details.turns, [{ role: "user", text: "hi" }]);
+});
+
+test("readSessionDetails reports the file size", async (t) => {
+	const root = createTempDir(t);
+	const path = join(root, "session.jsonl");
+	const contents = sessionContents([message("user", "hello"), message("assistant", "hi there", "model-a")]);
+	writeFileSync(path, contents);
+
+	const details = await readSessionDetails(path);
+
+	assert.equal(details.size, Buffer.byteLength(contents));
+	assert.equal(details.model, "model-a");
+	assert.equal(details.turns.length, 2);
+});
+
+test("selectExcerptTurns keeps matching turns with their neighbours, or the last turns", () => {
+	const turns = ["hello", "set up the auth migration", "done", "next", "other", "lint fixes", "bye"].map((text, index) => ({
+		role: index % 2 === 0 ? ("user" as const) : ("assistant" as const),
+		text,
+	}));
+
+	assert.deepEqual(selectExcerptTurns(turns, ["auth", "lint"], 20), [0, 1, 2, 4, 5, 6]);
+	assert.deepEqual(selectExcerptTurns(turns, ["auth", "lint"], 4), [0, 1, 2, 4]);
+	assert.deepEqual(selectExcerptTurns(turns, ["nothing"], 3), [4, 5, 6]);
+	assert.deepEqual(selectExcerptTurns(turns, [], 20), [0, 1, 2, 3, 4, 5, 6]);
+});
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test, { type TestContext } from "node:test";
+import {
+	buildSnippet,
+	extractSessionText,
+	matchSessionText,
+	parseSearchQuery,
+	rankSearchResults,
+	searchSessions,
+	type SessionSearchHit,
+} from "../extensions/link-sessions-search.ts";
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-search-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function sessionContents(id: string, messages: Array<[string, unknown]>, name?: string): string {
+	const lines = [{ type: "session", id, cwd: "/x" }];
+	for (const [role, content] of messages) {
+		lines.push({ type: "message", message: { role, content } } as never);
+	}
+	if (name) lines.push({ type: "session_info", name } as never);
+	return `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`;
+}
+
+function writeSession(folder: string, fileName: string, contents: string, mtimeSeconds?: number): void {
+	mkdirSync(folder, { recursive: true });
+	const path = join(folder, fileName);
+	writeFileSync(path, contents);
+	if (mtimeSeconds !== undefined) utimesSync(path, mtimeSeconds, mtimeSeconds);
+}
+
+async function collect(iterable: AsyncIterable<SessionSearchHit>): Promise<SessionSearchHit[]> {
+	const hits: SessionSearchHit[] = [];
+	for await (const hit of iterable) hits.push(hit);
+	return hits;
+}
+
+test("parseSearchQuery lowercases terms and keeps quoted phrases", () => {
+	assert.deepEqual(parseSearchQuery('Auth "DB  migration" '), ["auth", "db migration"]);
+	assert.deepEqual(parseSearchQuery("   "), []);
+	assert.deepEqual(parseSearchQuery('"open'), ['"open']);
+});
+
+test("extractSessionText reads titles and text blocks of user and assistant messages", () => {
+	const contents = sessionContents("s1", [
+		["user", "Fix the auth migration"],
+		["assistant", [{ type: "thinking", thinking: "hidden" }, { type: "text", text: "Looking at auth" }]],
+		["toolResult", "tool output"],
+	]);
+	assert.deepEqual(extractSessionText(contents), {
+		id: "s1",
+		title: "Fix the auth migration",
+		messages: ["Fix the auth migration", "Looking at auth"],
+	});
+	assert.equal(extractSessionText(sessionContents("s2", [["user", "hi"]], "Named"))?.title, "Named");
+	assert.equal(extractSessionText("not json\n"), undefined);
+});
+
+test("matchSessionText requires every term and highlights them in the snippet", () => {
+	const session = {
+		id: "s1",
+		title: "t",
+		messages: ["We talked about auth.", `${"x".repeat(100)} the Auth migration failed on auth tables`],
+	};
+
+	const match = matchSessionText(session, ["auth", "migration"]);
+	assert.equal(match?.matchCount, 4);
+	assert.ok(match?.snippet.startsWith("…"));
+	assert.deepEqual(
+		match?.highlights.map(([start, end]) => match.snippet.slice(start, end)),
+		["Auth", "migration", "auth"],
+	);
+	assert.equal(matchSessionText(session, ["auth", "billing"]), undefined);
+	assert.deepEqual(buildSnippet("short text", ["text"]), { snippet: "short text", highlights: [[6, 10]] });
+});
+
+test("searchSessions streams matches from real folders and rankSearchResults orders them", async (t) => {
+	const root = createTempDir(t);
+	const a = join(root, "--a--");
+	const b = join(root, "--b--");
+	writeSession(a, "1.jsonl", sessionContents("a1", [["user", "auth migration"]]), 1000);
+	writeSession(a, "2.jsonl", sessionContents("a2", [["user", "billing"]]), 2000);
+	writeSession(b, "1.jsonl", sessionContents("b1", [["user", "auth migration, then the auth fix"]]), 3000);
+	symlinkSync(b, join(root, "--linked--"), "dir");
+	const folders = ["--a--", "--b--", "--linked--"].map((name) => ({ name, path: join(root, name) }));
+
+	const progress: number[] = [];
+	const hits = await collect(searchSessions(folders, "auth", { onProgress: (p) => progress.push(p.scanned) }));
+	assert.deepEqual(hits.map((hit) => hit.sessionId), ["a1", "b1"]);
+	assert.deepEqual(progress, [1, 2, 3]);
+
+	const ranked = rankSearchResults(hits);
+	assert.deepEqual(
+		ranked.map((result) => [result.folderName, result.hits.map((hit) => hit.sessionId)]),
+		[
+			["--b--", ["b1"]],
+			["--a--", ["a1"]],
+		],
+	);
+
+	const controller = new AbortController();
+	controller.abort();
+	assert.deepEqual(await collect(searchSessions(folders, "auth", { signal: controller.signal })), []);
+	assert.deepEqual(await collect(searchSessions(folders, "  ")), []);
+});
+
+test("searchSessions finds words with characters that JSON escapes", async (t) => {
+	const root = createTempDir(t);
+	const folder = join(root, "--a--");
+	writeSession(folder, "1.jsonl", sessionContents("a1", [["user", 'Open C:\\Users\\bob and say "hi"']]));
+	const folders = [{ name: "--a--", path: folder }];
+
+	const ids = async (query: string) => (await collect(searchSessions(folders, query))).map((hit) => hit.sessionId);
+	assert.deepEqual(await ids("C:\\Users"), ["a1"]);
+	assert.deepEqual(await ids("'\"hi\"'"), ["a1"]);
+	assert.deepEqual(await ids('say "hi"'), ["a1"]);
+	assert.deepEqual(await ids("users bob"), ["a1"]);
+});
@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import test, { type TestContext } from "node:test";
+import { disposeBackup, getPathKind, getTrashDir, listFolderChoices, moveToTrash } from "../extensions/link-sessions-core.ts";
+import {
+	type TrashEntry,
+	createTrashRestoreTransaction,
+	listTrash,
+	pruneTrash,
+	selectExpiredTrash,
+} from "../extensions/link-sessions-trash.ts";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+function createTempDir(t: TestContext): string {
+	const root = mkdtempSync(join(tmpdir(), "link-sessions-trash-test-"));
+	t.after(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+	return root;
+}
+
+function writeSessionFile(folder: string, fileName: string, contents: string): void {
+	mkdirSync(folder, { recursive: true });
+	writeFileSync(join(folder, fileName), contents);
+}
+
+function trashEntry(id: string, daysAgo: number, size: number, now: number): TrashEntry {
+	return {
+		id,
+		path: `/trash/${id}`,
+		originalName: id,
+		originalPath: `/sessions/${id}`,
+		originalKind: "missing",
+		trashedAt: new Date(now - daysAgo * DAY_MS),
+		sessionCount: 1,
+		size,
+	};
+}
+
+test("moveToTrash records where a folder came from and hides the trash from the folder list", (t) => {
+	const root = createTempDir(t);
+	const current = join(root, "--current--");
+	const backup = join(root, "--current--.bak-1");
+	writeSessionFile(backup, "a.jsonl", "session-a");
+	writeSessionFile(backup, "b.jsonl", "session-b");
+
+	const trashPath = moveToTrash(backup, current);
+
+	assert.equal(existsSync(backup), false);
+	assert.equal(trashPath.startsWith(getTrashDir(root)), true);
+	const [entry] = listTrash(root);
+	assert.equal(entry?.path, trashPath);
+	assert.equal(entry?.originalPath, current);
+	assert.equal(entry?.originalName, "--current--");
+	assert.equal(entry?.originalKind, "missing");
+	assert.equal(entry?.sessionCount, 2);
+	assert.equal(entry?.size, "session-a".length + "session-b".length);
+	assert.deepEqual(listFolderChoices(root, "--current--"), []);
+});
+
+test("disposeBackup only trashes directories that hold sessions", (t) => {
+	const root = createTempDir(t);
+	const current = join(root, "--current--");
+	const target = join(root, "--target--");
+	mkdirSync(target);
+
+	const emptyBackup = join(root, "--current--.bak-1");
+	mkdirSync(emptyBackup);
+	assert.equal(disposeBackup(emptyBackup, current), undefined);
+	assert.equal(existsSync(emptyBackup), false);
+
+	const linkBackup = join(root, "--current--.bak-2");
+	symlinkSync(target, linkBackup, "dir");
+	assert.equal(disposeBackup(linkBackup, current), undefined);
+	assert.equal(getPathKind(linkBackup), "missing");
+	assert.equal(getPathKind(target), "directory");
+
+	const fullBackup = join(root, "--current--.bak-3");
+	writeSessionFile(fullBackup, "a.jsonl", "session-a");
+	const trashPath = disposeBackup(fullBackup, current);
+	assert.equal(readFileSync(join(trashPath!, "a.jsonl"), "utf8"), "session-a");
+	assert.equal(listTrash(root).length, 1);
+});
+
+test("createTrashRestoreTransaction puts a folder back in place of the link that replaced it", (t) => {
+	const root = createTempDir(t);
+	const current = join(root, "--current--");
+	const target = join(root, "--target--");
+	writeSessionFile(target, "t.jsonl", "target");
+	writeSessionFile(join(root, "old"), "a.jsonl", "session-a");
+	moveToTrash(join(root, "old"), current);
+	symlinkSync(target, current, "dir");
+
+	const [entry] = listTrash(root);
+	assert.equal(entry?.originalKind, "symlink");
+
+	const rolledBack = createTrashRestoreTransaction(entry!);
+	assert.equal(getPathKind(current), "directory");
+	rolledBack.rollback();
+	assert.equal(getPathKind(current), "symlink");
+	assert.equal(listTrash(root).length, 1);
+
+	createTrashRestoreTransaction(listTrash(root)[0]!).commit();
+	assert.equal(getPathKind(current), "directory");
+	assert.equal(readFileSync(join(current, "a.jsonl"), "utf8"), "session-a");
+	assert.deepEqual(listTrash(root), []);
+	assert.deepEqual(readdirSync(getTrashDir(root)), []);
+	assert.deepEqual(readdirSync(target), ["t.jsonl"]);
+});
+
+test("createTrashRestoreTransaction merges into a folder that is a real directory again", (t) => {
+	const root = createTempDir(t);
+	const current = join(root, "--current--");
+	writeSessionFile(join(root, "old"), "a.jsonl", "session-a");
+	moveToTrash(join(root, "old"), current);
+	writeSessionFile(current, "b.jsonl", "session-b");
+
+	const transaction = createTrashRestoreTransaction(listTrash(root)[0]!);
+	assert.deepEqual(readdirSync(current).sort(), ["a.jsonl", "b.jsonl"]);
+	transaction.commit();
+	assert.deepEqual(listTrash(root), []);
+});
+
+test("selectExpiredTrash applies the retention period, then the size cap oldest first", () => {
+	const now = Date.now();
+	const newest = trashEntry("newest", 1, 40 * 1024 * 1024, now);
+	const middle = trashEntry("middle", 5, 10 * 1024 * 1024, now);
+	const older = trashEntry("older", 10, 10 * 1024 * 1024, now);
+	const expired = trashEntry("expired", 40, 1, now);
+	const entries = [older, newest, expired, middle];
+
+	assert.deepEqual(selectExpiredTrash(entries, { retentionDays: 30, maxSizeMb: 0 }, now), [expired]);
+	assert.deepEqual(selectExpiredTrash(entries, { retentionDays: 30, maxSizeMb: 50 }, now), [older, expired]);
+	assert.deepEqual(selectExpiredTrash(entries, { retentionDays: 0, maxSizeMb: 1 }, now), [middle, older, expired]);
+	assert.deepEqual(selectExpiredTrash(entries, { retentionDays: 0, maxSizeMb: 0 }, now), []);
+});
+
+test("pruneTrash purges expired folders and metadata left behind by undo once it is old enough", (t) => {
+	const root = createTempDir(t);
+	writeSessionFile(join(root, "old"), "a.jsonl", "session-a");
+	const trashPath = moveToTrash(join(root, "old"), join(root, "--current--"));
+	writeSessionFile(join(root, "undone"), "b.jsonl", "session-b");
+	const undonePath = moveToTrash(join(root, "undone"), join(root, "--other--"));
+	rmSync(undonePath, { recursive: true });
+
+	// Fresh metadata may belong to a folder that is still being moved into the trash.
+	assert.deepEqual(pruneTrash(root, { retentionDays: 30, maxSizeMb: 0 }), []);
+	assert.equal(readdirSync(getTrashDir(root)).length, 3);
+
+	assert.deepEqual(pruneTrash(root, { retentionDays: 30, maxSizeMb: 0 }, Date.now() + 60_000), []);
+	assert.deepEqual(readdirSync(getTrashDir(root)).sort(), [basename(trashPath), `${basename(trashPath)}.json`].sort());
+
+	const pruned = pruneTrash(root, { retentionDays: 30, maxSizeMb: 0 }, Date.now() + 31 * DAY_MS);
+	assert.deepEqual(
+		pruned.map((entry) => entry.originalName),
+		["--current--"],
+	);
+	assert.deepEqual(readdirSync(getTrashDir(root)), []);
+});